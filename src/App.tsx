@@ -1,320 +1,767 @@
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useMemo, useState } from 'react'
 import CurveKit from './components/CurveKit'
-import type { CurveState, NodeModel } from './lib/types'
-import { buildParamLUT, pointAtTime, timeAtPoint } from './lib/geometry/ParamMap'
-import { toSmoothCPath, getSmoothSegments } from './lib/geometry/SmoothPath'
-import { buildLUT, accumulateLengths } from './lib/geometry/Bezier'
+import NodeSheet from './components/NodeSheet'
+import NodeIcon from './components/NodeIcon'
+import ActivityPath from './components/ActivityPath'
+import type { CurveState, NodeModel, RoutineDocument, RoutineSnapshot, TimeWarp } from './lib/types'
+import { buildParamLUT, controlsToSegments, pointAtTime, timeAtPoint } from './lib/geometry/ParamMap'
+import { selfIntersections } from './lib/geometry/Intersect'
+import { fitStroke } from './lib/geometry/Fit'
+import { cubicsToPath } from './lib/geometry/Bezier'
+import { buildTimeWarp, densityFromNodes } from './lib/geometry/TimeWarp'
+import { moveNodeTime } from './lib/spans'
+import { MIN_NODES, duplicateNode, insertNode, removeNode } from './lib/nodes'
+import { ICONS, nodeFace, resolveIcon } from './lib/icons'
+import { inkOn, nodeFill } from './lib/theme'
+import { stretchesByControl } from './lib/activity'
+import { buildSegmentIndex, nearestOnSegments } from './lib/geometry/SpatialIndex'
+import { formatTime, localISODate, spanOf } from './lib/time'
+import { exportICS, importICS, readICSFile } from './lib/ics'
+import { downloadExport } from './lib/export'
+import { type SnapTarget, snapTime } from './lib/snap'
+import { type ConstraintLimit, allowedRange, constrainTime, limitLabel } from './lib/constraints'
+import { canChangeTime, canMove, canSlide } from './lib/roles'
+import { createDayModel, deviceTimeZone, formatInZone, todayIn, wallToElapsed, zoneLabel } from './lib/dayModel'
+import { DEFAULT_SETTINGS, type LoadIssue, SCHEMA_VERSION, loadRoutine, saveRoutine } from './lib/serialization'
+import { type History, cancelGesture, commit, createHistory, endGesture, redo, undo, updateGesture } from './lib/history'
+import { type PointerLike, trackPointer } from './lib/gesture'
+import { mainAt, mainOf, placeNodes, serpentineLayout, withMain } from './lib/layout'
+import { usePointerGesture } from './hooks/usePointerGesture'
+import { fromView, layoutViewport, toView } from './lib/viewport'
+import { useContainerSize } from './hooks/useContainerSize'
+import { useTheme } from './hooks/useTheme'
 
 // Nodes ARE the curve control points!
 const initialNodes: NodeModel[] = [
-  { id: 'wake', time: 21600, label: 'Wake', icon: 'sun', color: '#f59e0b' },      // 6am
+  { id: 'wake', time: 21600, label: 'Wake', icon: 'sun', color: '#f59e0b', role: 'start' }, // 6am
   { id: 'work', time: 32400, label: 'Work', icon: 'briefcase', color: '#3b82f6' }, // 9am
   { id: 'lunch', time: 46800, label: 'Lunch', icon: 'utensils', color: '#10b981' }, // 1pm
-  { id: 'sleep', time: 79200, label: 'Sleep', icon: 'moon', color: '#8b5cf6' },   // 10pm
+  { id: 'sleep', time: 79200, label: 'Sleep', icon: 'moon', color: '#8b5cf6', role: 'end' }, // 10pm
 ]
 
-function useIsMobile() {
-  const [isMobile, setIsMobile] = useState(false);
+// Unused by the mobile renderer (nodes define its shape) but kept in the document for CurveKit
+const initialCurve: CurveState = {
+  controls: [{ x: 0, y: 0 }, { x: 1 / 3, y: -0.125 }, { x: 2 / 3, y: 0.125 }, { x: 1, y: 0 }],
+  tension: 0.5,
+}
+
+function createDefaultRoutine(): RoutineDocument {
+  return {
+    version: SCHEMA_VERSION,
+    curve: initialCurve,
+    nodes: initialNodes,
+    nodePositions: {},
+    settings: DEFAULT_SETTINGS,
+  }
+}
+
+// The viewBox's short side; the long side follows the screen's aspect
+const SHORT_SIDE = 400
+// Serpentine for the nodes: 100 clear at the edges, sweeps half way there, node circles never touching
+const LAYOUT = { padding: 100, wiggle: 0.5, labelSpacing: 110 }
+
+const sameSnapshot = (a: RoutineSnapshot, b: RoutineSnapshot) =>
+  a === b || JSON.stringify(a) === JSON.stringify(b)
+
+/** Ctrl/Cmd+Z, Shift+Ctrl/Cmd+Z, Ctrl+Y; two-finger tap undoes, three-finger tap redoes. */
+function useUndoShortcuts(onUndo: () => void, onRedo: () => void) {
   useEffect(() => {
-    const checkMobile = () => setIsMobile(window.innerWidth < 768);
-    checkMobile();
-    window.addEventListener('resize', checkMobile);
-    return () => window.removeEventListener('resize', checkMobile);
-  }, []);
-  return isMobile;
+    const onKey = (e: KeyboardEvent) => {
+      const el = e.target as HTMLElement | null
+      if (el && (el.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(el.tagName))) return
+      if (!(e.ctrlKey || e.metaKey)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z') { e.preventDefault(); (e.shiftKey ? onRedo : onUndo)() }
+      else if (key === 'y') { e.preventDefault(); onRedo() }
+    }
+    // A tap = all fingers down and up within 300ms without travelling
+    let tap: { fingers: number; t0: number; pts: Map<number, { x: number; y: number }>; moved: boolean } | null = null
+    const onStart = (e: TouchEvent) => {
+      if (!tap) tap = { fingers: 0, t0: e.timeStamp, pts: new Map(), moved: false }
+      for (const t of Array.from(e.changedTouches)) tap.pts.set(t.identifier, { x: t.clientX, y: t.clientY })
+      tap.fingers = Math.max(tap.fingers, e.touches.length)
+    }
+    const onMove = (e: TouchEvent) => {
+      if (!tap) return
+      for (const t of Array.from(e.changedTouches)) {
+        const p = tap.pts.get(t.identifier)
+        if (p && Math.hypot(t.clientX - p.x, t.clientY - p.y) > 10) tap.moved = true
+      }
+    }
+    const onEnd = (e: TouchEvent) => {
+      if (!tap || e.touches.length > 0) return
+      const { fingers, t0, moved } = tap
+      tap = null
+      if (moved || e.timeStamp - t0 > 300) return
+      if (fingers === 2) onUndo()
+      else if (fingers === 3) onRedo()
+    }
+    window.addEventListener('keydown', onKey)
+    window.addEventListener('touchstart', onStart, { capture: true, passive: true })
+    window.addEventListener('touchmove', onMove, { capture: true, passive: true })
+    window.addEventListener('touchend', onEnd, { capture: true, passive: true })
+    window.addEventListener('touchcancel', onEnd, { capture: true, passive: true })
+    return () => {
+      window.removeEventListener('keydown', onKey)
+      window.removeEventListener('touchstart', onStart, { capture: true })
+      window.removeEventListener('touchmove', onMove, { capture: true })
+      window.removeEventListener('touchend', onEnd, { capture: true })
+      window.removeEventListener('touchcancel', onEnd, { capture: true })
+    }
+  }, [onUndo, onRedo])
+}
+
+/** The first issue for a toast, with a count of the rest. */
+function describeIssues(issues: LoadIssue[]): string {
+  return issues.length ? ` · ${issues[0].message}${issues.length > 1 ? ` (+${issues.length - 1} more)` : ''}` : ''
 }
 
 export default function App() {
-  const [nodes, setNodes] = useState<NodeModel[]>(() => {
-    try {
-      const raw = localStorage.getItem('ck_nodes')
-      if (raw) return JSON.parse(raw) as NodeModel[]
-    } catch {}
-    return initialNodes
-  })
-  
+  // Load once: migrates legacy `ck_nodes` payloads and repairs invalid entries (the toast says so)
+  const [{ doc: loaded, issues: repaired }] = useState(() => loadRoutine(localStorage, createDefaultRoutine()))
+  const [settings, setSettings] = useState(loaded.settings)
+
+  // Curve shape, node times and node positions live in one undoable history.
   // Node positions define the curve!
-  const [nodePositions, setNodePositions] = React.useState<Record<string, { x: number; y: number }>>(() => {
-    const positions: Record<string, { x: number; y: number }> = {};
-    nodes.forEach((n, i) => {
-      const y = 100 + (n.time / 86400) * 600;
-      const x = i % 2 === 0 ? 150 : 250; // Alternate left/right for S-curve
-      positions[n.id] = { x, y };
-    });
-    return positions;
+  // Stored positions are the ones the user placed; every other node follows the layout.
+  const [history, setHistory] = useState<History<RoutineSnapshot>>(() => {
+    const present = { curve: loaded.curve, nodes: loaded.nodes, nodePositions: loaded.nodePositions };
+    return createHistory(present, loaded.history?.past, loaded.history?.future);
   });
+  const { curve, nodes, nodePositions } = history.present
+
+  // Discrete edits are one step each; `gesture` edits merge until finishGesture()
+  const editRoutine = (fn: (s: RoutineSnapshot) => RoutineSnapshot, gesture = false) =>
+    setHistory(h => gesture ? updateGesture(h, fn(h.present)) : commit(h, fn(h.present), sameSnapshot))
+  const finishGesture = () => setHistory(h => endGesture(h, sameSnapshot))
+  const handleUndo = React.useCallback(() => setHistory(h => undo(endGesture(h, sameSnapshot))), [])
+  const handleRedo = React.useCallback(() => setHistory(h => redo(endGesture(h, sameSnapshot))), [])
+  useUndoShortcuts(handleUndo, handleRedo)
   
   const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [freshId, setFreshId] = useState<string | null>(null) // created by a tap, still to be named
+  // toast; `undoTo` is the snapshot from before a delete, which Undo restores while that delete is the latest step
+  const [notice, setNotice] = useState<{ message: string; undoTo?: RoutineSnapshot } | null>(
+    () => repaired.length ? { message: `Repaired the saved routine${describeIssues(repaired)}` } : null)
   const [draggingNode, setDraggingNode] = React.useState<string | null>(null);
   const [slideMode, setSlideMode] = React.useState<string | null>(null);
-  const [longPressTimer, setLongPressTimer] = React.useState<number | null>(null);
   const [slidePendingTime, setSlidePendingTime] = React.useState<number | null>(null);
+  const [snapTarget, setSnapTarget] = useState<SnapTarget | null>(null)
+  const [limit, setLimit] = useState<ConstraintLimit | null>(null)
+  const [refused, setRefused] = useState<{ x: number; y: number }[]>([]) // crossings a sculpt move would have made
+  const [drawMode, setDrawMode] = useState(false)
+  const [stroke, setStroke] = useState<{ x: number; y: number }[] | null>(null) // the stroke being traced
   
-  const isMobile = useIsMobile()
-
-  useEffect(() => { try { localStorage.setItem('ck_nodes', JSON.stringify(nodes)) } catch {} }, [nodes])
-
-  if (isMobile) {
-    // Build smooth curve from node positions with symmetric arms
-    const nodePoints = nodes.map(n => nodePositions[n.id]);
-    const curvePath = toSmoothCPath(nodePoints, 0.5);
-    
-    // Build arc-length LUT for the ACTUAL smooth curve (for sliding)
-    const smoothSegments = getSmoothSegments(nodePoints, 0.5);
-    const lutBase = buildLUT(smoothSegments, 0.75);
-    const s = accumulateLengths(lutBase.pt);
-    const lut = { ...lutBase, s, length: s[s.length - 1], segments: smoothSegments };
-    
-    return (
-      <div style={{ 
+  const svgRef = React.useRef<SVGSVGElement | null>(null)
+  const containerRef = React.useRef<HTMLDivElement | null>(null)
+  // Light, dark or high contrast as the system prefers; --serpentime-* properties override
+  const theme = useTheme(containerRef)
+
+  // Multi-day routines map days·86400 seconds onto the same curve
+  const span = spanOf(settings.days)
+
+  // DST-aware days when the routine has a zone; a second clock needs one in the device zone too
+  const zoneModel = useMemo(() => {
+    const tz = settings.timeZone ?? (settings.secondTimeZone ? deviceTimeZone() : null)
+    return tz ? createDayModel(settings.startDate ?? todayIn(tz), tz, settings.days) : undefined
+  }, [settings.timeZone, settings.secondTimeZone, settings.startDate, settings.days])
+  const day = settings.timeZone ? zoneModel : undefined
+  const elapsedSpan = day?.span ?? span
+  const secondClock = (t: number) =>
+    settings.secondTimeZone && zoneModel ? ` (${formatInZone(zoneModel, t, settings.secondTimeZone)} ${zoneLabel(settings.secondTimeZone)})` : ''
+
+  // Warp from committed nodes only, so the curve doesn't shift under an active slide.
+  // With a day model it runs on elapsed seconds, like the curve.
+  const warp = useMemo<TimeWarp | undefined>(() => {
+    const { mode, keys } = settings.timeWarp
+    const toElapsed = (t: number) => (day ? wallToElapsed(day, t) : t)
+    if (mode === 'nodes') return buildTimeWarp(densityFromNodes(nodes.map(n => ({ time: toElapsed(n.time) })), { span: elapsedSpan }), elapsedSpan)
+    if (mode === 'keyframes') return buildTimeWarp(keys.map(k => ({ ...k, time: toElapsed(k.time) })), elapsedSpan)
+    return undefined
+  }, [nodes, settings.timeWarp, day, elapsedSpan])
+
+  // Persist settled states only: mid-gesture frames would thrash storage
+  useEffect(() => {
+    if (history.pending) return
+    saveRoutine(localStorage, {
+      version: SCHEMA_VERSION, curve, nodes, nodePositions, settings,
+      history: { past: history.past, future: history.future },
+    })
+  }, [history, curve, nodes, nodePositions, settings])
+
+  // Re-laid out whenever the screen resizes or rotates; time runs along the long side
+  const screen = useContainerSize(containerRef, { width: 400, height: 800 })
+  const layout = useMemo(() => {
+    const scale = SHORT_SIDE / Math.min(screen.width, screen.height)
+    return serpentineLayout({ width: screen.width * scale, height: screen.height * scale, count: nodes.length, ...LAYOUT })
+  }, [screen, nodes.length])
+  const mainFromTime = (t: number) => mainAt(layout, t / span)
+  // Stored positions are normalised to the layout's frame, so they follow it through resizes and rotation
+  const viewport = useMemo(() => layoutViewport(layout), [layout])
+
+  const positions = useMemo(() => {
+    const auto = placeNodes(layout, nodes.map(n => n.time / span))
+    const placed = Object.fromEntries(Object.entries(nodePositions).map(([id, p]) => [id, toView(viewport, p)]))
+    return { ...Object.fromEntries(nodes.map((n, i) => [n.id, auto[i]])), ...placed }
+  }, [layout, viewport, nodes, nodePositions, span])
+
+  // Node positions are the controls; the arc-length LUT covers the ACTUAL drawn curve (for sliding)
+  const nodePoints = nodes.map(n => positions[n.id]);
+  const lut = buildParamLUT({ controls: nodePoints, tension: 1 - settings.softness },
+    { model: settings.curveModel, warp, span: elapsedSpan, day });
+  const curvePath = cubicsToPath(lut.segments);
+
+  const clientToSvg = (x: number, y: number) => {
+    const svg = svgRef.current;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const pt = svg.createSVGPoint();
+    pt.x = x;
+    pt.y = y;
+    return pt.matrixTransform(ctm.inverse());
+  };
+
+  // Same gestures for mouse, pen and touch: drag = sculpt, hold = slide, tap = select
+  const gesture = usePointerGesture<string>({
+    onPress: (_p, id) => setDraggingNode(id),
+    onLongPress: (_p, id) => {
+      // Anchors and pinned nodes can't slide (see lib/roles)
+      const node = nodes.find(n => n.id === id);
+      if (!node || !canSlide(node)) return;
+      setSlideMode(id);
+      // Haptic feedback if available
+      if (navigator.vibrate) navigator.vibrate(50);
+    },
+    onDragMove: (p, id, kind) => {
+      const svgP = clientToSvg(p.x, p.y);
+      if (!svgP) return;
+      const node = nodes.find(n => n.id === id);
+      if (!node) return;
+      if (slideMode === id || (kind === 'slide' && canSlide(node))) {
+        // SLIDE MODE: constrained to curve, update pending time (not saved yet)
+        // Alt or a second finger suspends snapping for fine adjustment
+        // near the previous frame's time, so a crossing doesn't throw the node onto the other branch
+        const snapped = snapTime(lut, timeAtPoint(lut, svgP, { near: slidePendingTime ?? node.time }), settings.snap, {
+          nodes, exclude: id, pxPerUnit: svgRef.current?.getScreenCTM()?.a, free: p.altKey || p.extraPointers > 0,
+        });
+        // ...and never past a neighbour or outside the node's window
+        const held = constrainTime(nodes, id, snapped.time, settings.constraints, span);
+        setSlidePendingTime(held.time);
+        setSnapTarget(held.limit ? null : snapped.target);
+        setLimit(held.limit);
+      } else if (canMove(node)) {
+        // SCULPT MODE: free 2D movement, reshape curve
+        // Time follows the main axis, so time constraints become a floor and ceiling along it
+        let along = mainOf(layout, svgP);
+        let held: ConstraintLimit | null = null;
+        if (canChangeTime(node)) {
+          const { min, max } = allowedRange(nodes, id, settings.constraints, span);
+          if (min.limit.kind !== 'range' && along < mainFromTime(min.time)) { along = mainFromTime(min.time); held = min.limit; }
+          if (max.limit.kind !== 'range' && along > mainFromTime(max.time)) { along = mainFromTime(max.time); held = max.limit; }
+        }
+        setLimit(held);
+        const to = withMain(layout, svgP, along);
+        // refuse positions that would make the path cross itself (an already-crossed path may untangle)
+        const moved = nodes.map(n => (n.id === id ? to : positions[n.id]))
+        const found = selfIntersections(controlsToSegments(moved, 1 - settings.softness, settings.curveModel))
+        if (found.length > selfIntersections(lut.segments).length) {
+          setRefused(found.map(x => x.point))
+          return
+        }
+        setRefused([])
+        editRoutine(r => ({
+          ...r,
+          nodePositions: { ...r.nodePositions, [id]: fromView(viewport, to) },
+        }), true);
+      }
+    },
+    onDragEnd: (_p, id, kind) => {
+      const node = nodes.find(n => n.id === id);
+      if (node && slideMode !== id && !(kind === 'slide' && canSlide(node))) {
+        // Sculpt mode: Update time based on the main-axis position immediately (unless the time is pinned)
+        editRoutine(r => {
+          const pos = r.nodePositions[id];
+          if (!canChangeTime(node) || !pos) return r;
+          // normalised x is the node's share of the routine
+          const newTime = constrainTime(r.nodes, id, Math.min(1, Math.max(0, pos.x)) * span, settings.constraints, span).time;
+          return { ...r, nodes: r.nodes.map(node => 
+            node.id === id ? moveNodeTime(node, newTime, span) : node
+          ) };
+        }, true);
+        // the whole drag (position + time) is one undo step
+        finishGesture();
+      }
+      // Note: In slide mode, don't save on release - wait for background tap
+      setSnapTarget(null);
+      setLimit(null);
+      setRefused([]);
+      setDraggingNode(null);
+    },
+    onTap: (_p, id) => {
+      setSelectedId(id);
+      setDraggingNode(null);
+    },
+    onCancel: (id) => {
+      // Pointer lost mid-drag: drop the unfinished sculpt and any slide preview
+      setHistory(cancelGesture);
+      if (slideMode === id) setSlidePendingTime(null);
+      setSnapTarget(null);
+      setLimit(null);
+      setRefused([]);
+      setDraggingNode(null);
+    },
+  });
+
+  // Tap an empty stretch of the path to add a node there, at the time that point stands for
+  const pathGesture = usePointerGesture<'path'>({
+    onTap: p => {
+      const svgP = clientToSvg(p.x, p.y)
+      if (!svgP) return
+      const hit = nearestOnSegments(lut.index ?? buildSegmentIndex(lut.segments), lut.segments, svgP)
+      if (!hit) return
+      const { nodes: next, node } = insertNode(nodes, hit.seg + 1, timeAtPoint(lut, svgP))
+      const time = constrainTime(next, node.id, node.time, settings.constraints, span).time
+      editRoutine(r => ({
+        ...r,
+        nodes: next.map(n => (n.id === node.id ? moveNodeTime(n, time, span) : n)),
+        // the layout re-spaces for another node; keep every node where it is seen
+        nodePositions: { ...freezePositions(), [node.id]: fromView(viewport, pointAtTime(lut, time)) },
+      }))
+      setSelectedId(node.id)
+      setFreshId(node.id)
+    },
+  })
+
+  const freezePositions = () => Object.fromEntries(nodes.map(n => [n.id, fromView(viewport, positions[n.id])]))
+
+  const closeSheet = () => {
+    finishGesture()
+    setSelectedId(null)
+    setFreshId(null)
+  }
+
+  const setNodeTime = (id: string, time: number) => {
+    const held = constrainTime(nodes, id, time, settings.constraints, span).time
+    editRoutine(r => {
+      const pos = r.nodePositions[id]
+      return {
+        ...r,
+        nodes: r.nodes.map(n => (n.id === id ? moveNodeTime(n, held, span) : n)),
+        // a placed node moves along the main axis with its time, like a sculpt drag in reverse
+        nodePositions: pos ? { ...r.nodePositions, [id]: { ...pos, x: held / span } } : r.nodePositions,
+      }
+    }, true)
+  }
+
+  const duplicateSelected = (id: string) => {
+    const made = duplicateNode(nodes, id, span)
+    if (!made) return
+    // the copy keeps order, the routine's end and its neighbours' windows, like a tapped-in node
+    const { node } = made
+    const time = constrainTime(made.nodes, node.id, node.time, settings.constraints, span).time
+    finishGesture()
+    editRoutine(r => ({
+      ...r,
+      nodes: made.nodes.map(n => (n.id === node.id ? moveNodeTime(n, time, span) : n)),
+      nodePositions: { ...freezePositions(), [node.id]: fromView(viewport, pointAtTime(lut, time)) },
+    }))
+    setSelectedId(node.id)
+    setFreshId(null)
+  }
+
+  const deleteSelected = (id: string) => {
+    const node = nodes.find(n => n.id === id)
+    if (!node || nodes.length <= MIN_NODES) return
+    const before = history.present
+    finishGesture()
+    editRoutine(r => {
+      const { [id]: _gone, ...rest } = r.nodePositions
+      return { ...r, nodes: removeNode(r.nodes, id), nodePositions: rest }
+    })
+    setSelectedId(null)
+    setFreshId(null)
+    setNotice({ message: `Deleted ${node.label || 'node'}`, undoTo: before })
+  }
+
+  // Any later step (an edit, a drag, undo from the keyboard) buries the delete: the toast can't take it back
+  const isLatest = (h: History<RoutineSnapshot>, snap: RoutineSnapshot) => h.pending === null && h.past[h.past.length - 1] === snap
+  const undoTo = notice?.undoTo
+  useEffect(() => {
+    if (undoTo && !isLatest(history, undoTo)) setNotice(null)
+  }, [history, undoTo])
+  const undoDelete = (snap: RoutineSnapshot) => {
+    setHistory(h => isLatest(h, snap) ? undo(h) : h)
+    setNotice(null)
+  }
+
+  // Toasts fade on their own
+  useEffect(() => {
+    if (!notice) return
+    const timer = setTimeout(() => setNotice(null), 6000)
+    return () => clearTimeout(timer)
+  }, [notice])
+
+  const selected = nodes.find(n => n.id === selectedId) ?? null
+  const iconChoices = [...new Set([...Object.keys(ICONS), ...nodes.map(n => n.icon).filter(Boolean)])]
+
+  const commitSlide = () => {
+    // Tap background to SAVE and exit slide mode
+    if (slideMode && slidePendingTime !== null) {
+      // Save the time - position is already correct from live preview
+      // Keep the node position where it visually is on the curve
+      // Don't recalculate - it's already at pointAtTime(lut, slidePendingTime)
+      const finalPos = pointAtTime(lut, slidePendingTime);
+      editRoutine(r => ({
+        ...r,
+        nodes: r.nodes.map(node => 
+          node.id === slideMode ? moveNodeTime(node, slidePendingTime, span) : node
+        ),
+        nodePositions: { ...r.nodePositions, [slideMode]: fromView(viewport, finalPos) },
+      }));
+      
+      setSlideMode(null);
+      setSlidePendingTime(null);
+    }
+  };
+  
+  // Draw your day: fit the stroke, then put every node on the new curve at its time (one undo step)
+  const startStroke = (e: React.PointerEvent) => {
+    const start = clientToSvg(e.clientX, e.clientY)
+    if (!start) return
+    e.preventDefault()
+    const pts = [start]
+    setStroke(pts)
+    const move = (ev: PointerLike) => {
+      const p = clientToSvg(ev.clientX, ev.clientY)
+      if (!p) return
+      pts.push(p)
+      setStroke([...pts])
+    }
+    const up = () => {
+      setStroke(null)
+      const length = pts.reduce((sum, p, i) => (i ? sum + Math.hypot(p.x - pts[i - 1].x, p.y - pts[i - 1].y) : 0), 0)
+      if (length < 40) return // a tap or a slip, not a drawing
+      const tension = 1 - settings.softness
+      const controls = fitStroke(pts, { tolerancePx: 12, tension, model: settings.curveModel })
+      const drawn = buildParamLUT({ controls, tension }, { model: settings.curveModel, warp, span: elapsedSpan, day })
+      editRoutine(r => ({
+        ...r,
+        // pinned-position nodes keep their place; everything else lands on the stroke
+        nodePositions: Object.fromEntries(r.nodes.flatMap(n =>
+          canMove(n) ? [[n.id, fromView(viewport, pointAtTime(drawn, n.time))]] : r.nodePositions[n.id] ? [[n.id, r.nodePositions[n.id]]] : [])),
+      }))
+      setDrawMode(false)
+    }
+    // a cancelled stroke (the system took the touch) leaves the curve alone
+    trackPointer(e.currentTarget, e.pointerId, { move, end: up, cancel: () => setStroke(null) })
+  }
+
+  // Drop or pick a calendar file to replace the routine with that day's events (one undo step)
+  const importCalendar = async (file: File) => {
+    let text: string;
+    try {
+      text = await readICSFile(file);
+    } catch {
+      setNotice({ message: `Couldn't read ${file.name}` });
+      return;
+    }
+    const { nodes: imported, issues } = importICS(text, {
+      // the routine's own day and zone, as the timeline draws them; the device's otherwise
+      date: day?.date ?? settings.startDate ?? localISODate(),
+      days: settings.days,
+      tz: settings.timeZone ?? undefined,
+    });
+    const skipped = describeIssues(issues);
+    if (imported.length < 2) {
+      // nodes are the curve's controls: need at least two
+      setNotice({ message: `Nothing imported: ${file.name} has fewer than two events for this routine${skipped}` });
+      return;
+    }
+    editRoutine(r => ({
+      ...r,
+      nodes: imported,
+      nodePositions: {}, // the layout places them
+    }));
+    setNotice({ message: `Imported ${imported.length} events${skipped}` });
+  };
+
+  const exportCalendar = () => {
+    const ics = exportICS(nodes, { date: day?.date ?? settings.startDate, days: settings.days, tz: settings.timeZone })
+    downloadExport(new Blob([ics], { type: 'text/calendar;charset=utf-8' }), 'routine.ics')
+  }
+
+  // Toolbar buttons; `on` marks a toggle that is switched on
+  const pill = (on: boolean): React.CSSProperties => ({
+    padding: '10px 16px', borderRadius: 999, border: 'none', boxShadow: '0 2px 8px rgba(0,0,0,0.15)', fontSize: 15, fontWeight: 600,
+    background: on ? theme.snap : theme.overlay, color: on ? inkOn(theme.snap, theme) : theme.overlayInk,
+  })
+
+  return (
+    <div
+      ref={containerRef}
+      onDragOver={e => e.preventDefault()}
+      onDrop={e => {
+        const file = Array.from(e.dataTransfer.files).find(f => /\.ics$/i.test(f.name) || f.type === 'text/calendar');
+        if (!file) return;
+        e.preventDefault();
+        void importCalendar(file);
+      }}
+      style={{
         position: 'fixed',
         inset: 0,
-        background: '#fafafa',
+        background: theme.background,
         touchAction: 'none',
         overflow: 'hidden'
-      }}>
-        <svg 
-          width="100%" 
-          height="100%" 
-          viewBox="0 0 400 800"
-          style={{ touchAction: 'none', userSelect: 'none', WebkitUserSelect: 'none' }}
-          onTouchStart={() => {
-            // Tap background to SAVE and exit slide mode
-            if (slideMode && slidePendingTime !== null) {
-              // Save the time - position is already correct from live preview
-              setNodes(ns => ns.map(node => 
-                node.id === slideMode ? { ...node, time: slidePendingTime } : node
-              ));
-              
-              // Keep the node position where it visually is on the curve
-              // Don't recalculate - it's already at pointAtTime(lut, slidePendingTime)
-              const finalPos = pointAtTime(lut, slidePendingTime);
-              setNodePositions(prev => ({
-                ...prev,
-                [slideMode]: finalPos
-              }));
-              
-              setSlideMode(null);
-              setSlidePendingTime(null);
-            }
-          }}
-        >
-          {/* Draw the smooth serpentine curve */}
-          <path
-            d={curvePath}
-            fill="none"
-            stroke={slideMode ? '#3b82f6' : '#d1d5db'}
-            strokeWidth={slideMode ? 5 : 4}
-            strokeLinecap="round"
-          />
+      }}
+    >
+      <svg 
+        ref={svgRef}
+        width="100%" 
+        height="100%" 
+        viewBox={`0 0 ${layout.width} ${layout.height}`}
+        style={{ touchAction: 'none', userSelect: 'none', WebkitUserSelect: 'none' }}
+        onPointerDown={e => {
+          if (drawMode) return startStroke(e)
+          commitSlide()
+          if (selectedId) closeSheet()
+        }}
+        data-timeline=""
+      >
+        {/* Draw the smooth serpentine curve */}
+        <path
+          d={curvePath}
+          fill="none"
+          stroke={slideMode ? theme.pathActive : theme.path}
+          strokeWidth={slideMode ? 5 : 4}
+          strokeLinecap="round"
+        />
+
+        {/* Each activity's colour up to the next node; the plain path stands out on its own while sliding */}
+        {settings.pathColors !== 'none' && !slideMode && (
+          <ActivityPath stretches={stretchesByControl(lut.segments, nodes)} coloring={settings.pathColors} theme={theme} strokeWidth={4} />
+        )}
+
+        {/* Touch target along the path: tap to add a node */}
+        {!drawMode && !slideMode && (
+          <path d={curvePath} fill="none" stroke="transparent" strokeWidth={40} strokeLinecap="round"
+            style={{ cursor: 'copy' }} data-export="transient" {...pathGesture.bind('path')} />
+        )}
+        
+        {/* Nodes = Control points (dual purpose!) */}
+        {nodes.map((n) => {
+          const pos = positions[n.id];
+          const isDragging = draggingNode === n.id;
+          const isSliding = slideMode === n.id;
           
-          {/* Nodes = Control points (dual purpose!) */}
-          {nodes.map((n) => {
-            const pos = nodePositions[n.id];
-            const isDragging = draggingNode === n.id;
-            const isSliding = slideMode === n.id;
-            
-            // If in slide mode, show live position on curve
-            let displayPos = pos;
-            let displayTime = n.time;
-            if (isSliding) {
-              displayTime = slidePendingTime !== null ? slidePendingTime : n.time;
-              displayPos = pointAtTime(lut, displayTime);
-            }
-            
-            return (
-              <g key={n.id}>
-                {/* Touch target */}
-                <circle
-                  cx={displayPos.x}
-                  cy={displayPos.y}
-                  r={65}
-                  fill="transparent"
-                  onTouchStart={(e) => {
-                    e.stopPropagation();
-                    e.preventDefault();
-                    
-                    // Don't allow slide mode for wake/sleep - they're anchored
-                    const isAnchor = n.id === 'wake' || n.id === 'sleep';
-                    if (isAnchor) {
-                      setDraggingNode(n.id);
-                      return; // Can sculpt but not slide
-                    }
-                    
-                    // Start long-press timer for slide mode
-                    const timer = setTimeout(() => {
-                      setSlideMode(n.id);
-                      // Haptic feedback if available
-                      if (navigator.vibrate) navigator.vibrate(50);
-                    }, 500); // 500ms long press
-                    
-                    setLongPressTimer(timer);
-                    setDraggingNode(n.id);
-                  }}
-                  onTouchMove={(e) => {
-                    e.stopPropagation();
-                    e.preventDefault();
-                    
-                    // Cancel long-press if moving
-                    if (longPressTimer) {
-                      clearTimeout(longPressTimer);
-                      setLongPressTimer(null);
-                    }
-                    
-                    if (draggingNode !== n.id) return;
-                    const touch = e.touches[0];
-                    const svg = e.currentTarget.ownerSVGElement;
-                    if (!svg) return;
-                    const pt = svg.createSVGPoint();
-                    pt.x = touch.clientX;
-                    pt.y = touch.clientY;
-                    const svgP = pt.matrixTransform(svg.getScreenCTM()?.inverse());
-                    
-                    if (isSliding) {
-                      // SLIDE MODE: constrained to curve, update pending time (not saved yet)
-                      const newTime = timeAtPoint(lut, svgP);
-                      setSlidePendingTime(newTime);
-                    } else {
-                      // SCULPT MODE: free 2D movement, reshape curve
-                      setNodePositions(prev => ({
-                        ...prev,
-                        [n.id]: { x: svgP.x, y: svgP.y }
-                      }));
-                    }
-                  }}
-                  onTouchEnd={(e) => {
-                    e.stopPropagation();
-                    e.preventDefault();
-                    
-                    if (longPressTimer) {
-                      clearTimeout(longPressTimer);
-                      setLongPressTimer(null);
-                    }
-                    
-                    if (draggingNode === n.id && !isSliding) {
-                      // Sculpt mode: Update time based on Y position immediately
-                      const newTime = Math.max(0, Math.min(86400, ((pos.y - 100) / 600) * 86400));
-                      setNodes(ns => ns.map(node => 
-                        node.id === n.id ? { ...node, time: newTime } : node
-                      ));
-                    }
-                    // Note: In slide mode, don't save on release - wait for background tap
-                    
-                    setDraggingNode(null);
-                  }}
-                />
-                
-                {/* Visual node */}
-                <circle
-                  cx={displayPos.x}
-                  cy={displayPos.y}
-                  r={isDragging ? 50 : 45}
-                  fill={n.color}
-                  stroke={isSliding ? '#3b82f6' : 'white'}
-                  strokeWidth={isSliding ? 6 : 4}
-                  opacity={isDragging ? 0.8 : 1}
-                  style={{ pointerEvents: 'none' }}
-                />
-                <text
-                  x={displayPos.x}
-                  y={displayPos.y + 8}
-                  textAnchor="middle"
-                  fill="white"
-                  fontSize={isDragging ? 26 : 24}
-                  fontWeight="bold"
-                  style={{ pointerEvents: 'none' }}
-                >
-                  {n.label}
-                </text>
-              </g>
-            );
-          })}
+          // If in slide mode, show live position on curve
+          let displayPos = pos;
+          let displayTime = n.time;
+          if (isSliding) {
+            displayTime = slidePendingTime !== null ? slidePendingTime : n.time;
+            displayPos = pointAtTime(lut, displayTime);
+          }
+          const r = isDragging ? 50 : 45;
+          const face = nodeFace(n.label, r, isDragging ? 18 : 16, resolveIcon(n.icon) !== null);
+          const fill = nodeFill(n.color, theme);
+          const ink = inkOn(fill, theme);
           
-          {/* Instructions */}
-          {!slideMode && (
-            <g>
-              <rect x={10} y={10} width={380} height={50} rx={8} fill="white" opacity={0.9} />
-              <text x={20} y={35} fill="black" fontSize={16}>
-                Drag nodes to reshape curve 🎨
-              </text>
-              <text x={20} y={52} fill="#64748b" fontSize={14}>
-                Hold 0.5s to slide along curve 🎯
+          return (
+            <g key={n.id}>
+              {/* Touch target (mouse and pen too) */}
+              <circle
+                cx={displayPos.x}
+                cy={displayPos.y}
+                r={65}
+                fill="transparent"
+                style={{ cursor: isDragging ? 'grabbing' : 'grab' }}
+                {...gesture.bind(n.id)}
+              />
+              
+              {/* Visual node */}
+              <circle
+                cx={displayPos.x}
+                cy={displayPos.y}
+                r={r}
+                fill={fill}
+                stroke={isSliding ? theme.pathActive : theme.nodeRing}
+                strokeWidth={isSliding ? 6 : 4}
+                opacity={isDragging ? 0.8 : 1}
+                style={{ pointerEvents: 'none' }}
+              />
+              {face.icon && (
+                <NodeIcon icon={n.icon} x={displayPos.x} y={displayPos.y + face.icon.y} size={face.icon.size} color={ink} />
+              )}
+              {/* Inside the circle when it fits, otherwise just below it */}
+              <text
+                x={displayPos.x}
+                y={displayPos.y + face.label.y}
+                textAnchor="middle"
+                dominantBaseline="central"
+                fill={face.label.inside ? ink : theme.ink}
+                stroke={face.label.inside ? undefined : theme.background}
+                strokeWidth={face.label.inside ? undefined : 4}
+                paintOrder="stroke"
+                fontSize={isDragging ? 18 : 16}
+                fontWeight="bold"
+                style={{ pointerEvents: 'none' }}
+              >
+                {n.label}
               </text>
             </g>
-          )}
-          
-          {slideMode && (
-            <g>
-              <rect x={10} y={10} width={380} height={50} rx={8} fill="#3b82f6" opacity={0.95} />
-              <text x={20} y={35} fill="white" fontSize={18} fontWeight="bold">
-                SLIDE MODE: Move along curve
+          );
+        })}
+        
+        {/* Snap indicator while sliding */}
+        {snapTarget && (() => {
+          const p = pointAtTime(lut, snapTarget.time);
+          return (
+            <g style={{ pointerEvents: 'none' }} data-export="transient">
+              <circle cx={p.x} cy={p.y} r={56} fill="none" stroke={theme.snap} strokeWidth={2} strokeDasharray="6 4" />
+              <text x={p.x} y={p.y - 64} textAnchor="middle" fill={theme.snap} fontSize={16} fontWeight="bold">
+                {formatTime(snapTarget.time, settings.days, settings.startDate)}{secondClock(snapTarget.time)}
               </text>
-              <text x={20} y={52} fill="white" fontSize={14}>
-                Tap background to save
+            </g>
+          );
+        })()}
+        
+        {/* Draw your day: the stroke being traced */}
+        {stroke && (
+          <polyline points={stroke.map(p => `${p.x},${p.y}`).join(' ')} fill="none" stroke={theme.snap} strokeWidth={6}
+            strokeLinecap="round" strokeLinejoin="round" opacity={0.6} style={{ pointerEvents: 'none' }} data-export="transient" />
+        )}
+
+        {/* Sculpt refused: where the path would have crossed itself */}
+        {refused.map((p, k) => (
+          <g key={`x-${k}`} style={{ pointerEvents: 'none' }} data-export="transient">
+            <circle cx={p.x} cy={p.y} r={24} fill="none" stroke={theme.limit} strokeWidth={3} />
+            <path d={`M ${p.x - 10} ${p.y - 10} L ${p.x + 10} ${p.y + 10} M ${p.x + 10} ${p.y - 10} L ${p.x - 10} ${p.y + 10}`} stroke={theme.limit} strokeWidth={3} />
+          </g>
+        ))}
+
+        {/* Constraint feedback: the dragged node is held here, and why */}
+        {limit && draggingNode && (() => {
+          const p = slideMode === draggingNode ? pointAtTime(lut, limit.time) : positions[draggingNode];
+          if (!p) return null;
+          return (
+            <g style={{ pointerEvents: 'none' }} data-export="transient">
+              <circle cx={p.x} cy={p.y} r={56} fill="none" stroke={theme.limit} strokeWidth={3} />
+              <text x={p.x} y={p.y + 76} textAnchor="middle" fill={theme.limit} fontSize={16} fontWeight="bold">
+                {limitLabel(limit, nodes, settings.days, settings.startDate)}{secondClock(limit.time)}
               </text>
             </g>
-          )}
-        </svg>
+          );
+        })()}
+        
+        {/* Instructions */}
+        {drawMode && (
+          <g data-export="coachmark">
+            <rect x={10} y={10} width={380} height={50} rx={8} fill={theme.snap} opacity={0.95} />
+            <text x={20} y={35} fill={inkOn(theme.snap, theme)} fontSize={18} fontWeight="bold">
+              DRAW YOUR DAY
+            </text>
+            <text x={20} y={52} fill={inkOn(theme.snap, theme)} fontSize={14}>
+              Trace the path from first to last activity
+            </text>
+          </g>
+        )}
+
+        {!slideMode && !drawMode && (
+          <g data-export="coachmark">
+            <rect x={10} y={10} width={380} height={50} rx={8} fill={theme.overlay} opacity={0.9} />
+            <text x={20} y={35} fill={theme.overlayInk} fontSize={16}>
+              Drag nodes to reshape curve 🎨
+            </text>
+            <text x={20} y={52} fill={theme.muted} fontSize={14}>
+              Hold 0.5s to slide along curve 🎯
+            </text>
+          </g>
+        )}
+        
+        {slideMode && (
+          <g data-export="coachmark">
+            <rect x={10} y={10} width={380} height={50} rx={8} fill={theme.pathActive} opacity={0.95} />
+            <text x={20} y={35} fill={inkOn(theme.pathActive, theme)} fontSize={18} fontWeight="bold">
+              SLIDE MODE: Move along curve
+            </text>
+            <text x={20} y={52} fill={inkOn(theme.pathActive, theme)} fontSize={14}>
+              Tap background to save • Alt / 2 fingers: no snap
+            </text>
+          </g>
+        )}
+      </svg>
+      <button
+        type="button"
+        onClick={() => setDrawMode(d => !d)}
+        aria-pressed={drawMode}
+        style={{ ...pill(drawMode), position: 'absolute', right: 16, bottom: 16 }}
+      >
+        {drawMode ? 'Cancel drawing' : '✏️ Draw your day'}
+      </button>
+
+      <div style={{ position: 'absolute', right: 16, top: 16, display: 'flex', gap: 8 }}>
+        {/* Drag settings; saved with the routine */}
+        <button type="button" aria-pressed={settings.snap.enabled} style={pill(settings.snap.enabled)}
+          onClick={() => setSettings(s => ({ ...s, snap: { ...s.snap, enabled: !s.snap.enabled } }))}>
+          🧲 Snap
+        </button>
+        <button type="button" aria-pressed={settings.constraints.keepOrder} style={pill(settings.constraints.keepOrder)}
+          onClick={() => setSettings(s => ({ ...s, constraints: { ...s.constraints, keepOrder: !s.constraints.keepOrder } }))}>
+          ↕️ Keep order
+        </button>
+
+        {/* The routine as repeating calendar events, in its own zone; Import reads the file back */}
+        <button type="button" style={pill(false)} onClick={exportCalendar}>
+          📤 Export
+        </button>
+
+        {/* Calendar import for touch devices, where nothing can be dropped */}
+        <label style={{ ...pill(false), position: 'relative', cursor: 'pointer' }}>
+          📅 Import
+          <input
+            type="file"
+            accept=".ics,text/calendar"
+            style={{ position: 'absolute', width: 1, height: 1, opacity: 0, pointerEvents: 'none' }}
+            onChange={e => {
+              const file = e.target.files?.[0];
+              e.target.value = ''; // picking the same file again still imports
+              if (file) void importCalendar(file);
+            }}
+          />
+        </label>
       </div>
-    );
-  }
 
-  return (
-    <div style={{ 
-      display: 'flex',
-      flexDirection: 'column',
-      alignItems: 'center',
-      justifyContent: 'center',
-      minHeight: '100vh',
-      background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
-      padding: 24
-    }}>
-      <div style={{
-        maxWidth: 600,
-        background: 'white',
-        borderRadius: 16,
-        padding: 48,
-        boxShadow: '0 20px 60px rgba(0,0,0,0.3)',
-        textAlign: 'center'
-      }}>
-        <div style={{ fontSize: 64, marginBottom: 16 }}>📱</div>
-        <h1 style={{ fontSize: 32, marginBottom: 16, color: '#1a202c' }}>
-          Serpentime
-        </h1>
-        <p style={{ fontSize: 18, color: '#4a5568', marginBottom: 24, lineHeight: 1.6 }}>
-          This experience is designed for <strong>mobile devices only</strong>.
-        </p>
-        <p style={{ fontSize: 16, color: '#718096', marginBottom: 32, lineHeight: 1.6 }}>
-          The serpentine timeline interaction with drag-to-sculpt and hold-to-slide 
-          is optimized for touch and portrait orientation.
-        </p>
-        <div style={{
-          background: '#f7fafc',
-          padding: 24,
-          borderRadius: 12,
-          border: '2px solid #e2e8f0'
+      {selected && (
+        <NodeSheet
+          node={selected}
+          days={settings.days}
+          startDate={settings.startDate}
+          icons={iconChoices}
+          theme={theme}
+          canDelete={nodes.length > MIN_NODES}
+          focusLabel={freshId === selected.id}
+          onEdit={patch => editRoutine(r => ({ ...r, nodes: r.nodes.map(n => (n.id === selected.id ? { ...n, ...patch } : n)) }), true)}
+          onEditEnd={finishGesture}
+          onTimeChange={time => setNodeTime(selected.id, time)}
+          onDuplicate={() => duplicateSelected(selected.id)}
+          onDelete={() => deleteSelected(selected.id)}
+          onClose={closeSheet}
+        />
+      )}
+
+      {notice && (
+        <div role="status" style={{
+          position: 'absolute', left: 16, bottom: 16, maxWidth: 'calc(100% - 240px)', display: 'flex', gap: 12, alignItems: 'center',
+          padding: '10px 16px', borderRadius: 16, background: theme.overlayInk, color: theme.overlay, fontSize: 15, boxShadow: '0 2px 8px rgba(0,0,0,0.15)',
         }}>
-          <p style={{ fontSize: 14, color: '#2d3748', marginBottom: 12, fontWeight: 600 }}>
-            📲 To experience Serpentime:
-          </p>
-          <p style={{ fontSize: 14, color: '#4a5568', lineHeight: 1.8 }}>
-            1. Open this URL on your phone<br/>
-            2. Or resize your browser to &lt;768px width<br/>
-            3. Enjoy the serpentine timeline! 🌊
-          </p>
-        </div>
-        <div style={{ marginTop: 32, paddingTop: 24, borderTop: '1px solid #e2e8f0' }}>
-          <a href="https://github.com/motaterry/routine-data-visualization" 
-             style={{ 
-               color: '#667eea', 
-               textDecoration: 'none',
-               fontSize: 14,
-               fontWeight: 600
-             }}>
-            View on GitHub →
-          </a>
+          {notice.message}
+          {undoTo && (
+            <button type="button" onClick={() => undoDelete(undoTo)}
+              style={{ border: 'none', background: 'none', color: theme.overlay, fontSize: 15, fontWeight: 700, textDecoration: 'underline' }}>
+              Undo
+            </button>
+          )}
         </div>
-      </div>
+      )}
     </div>
   )
 }
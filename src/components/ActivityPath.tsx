@@ -0,0 +1,40 @@
+import React, { useId } from "react";
+import type { PathColoring, Theme } from "../lib/types";
+import { type ActivityStretch, stretchPaint } from "../lib/activity";
+import { cubicsToPath } from "../lib/geometry/Bezier";
+
+export type ActivityPathProps = {
+  stretches: ActivityStretch[];
+  coloring: Exclude<PathColoring, "none">;
+  theme: Theme;
+  strokeWidth: number;
+};
+
+/**
+ * The path recoloured by activity, drawn over the plain path. Butt caps keep
+ * each stretch to its own length, so neighbours meet edge to edge.
+ */
+export function ActivityPath({ stretches, coloring, theme, strokeWidth }: ActivityPathProps): React.ReactElement {
+  // useId output has characters url(#…) references don't take
+  const uid = `activity-${useId().replace(/[^\w-]/g, "")}`;
+  const painted = stretches.map((stretch) => ({ stretch, paint: stretchPaint(stretch, coloring, theme) }));
+  return (
+    <g aria-hidden="true" style={{ pointerEvents: "none" }}>
+      <defs>
+        {painted.map(({ stretch, paint }, i) => paint.kind === "gradient" && (
+          <linearGradient key={stretch.node.id} id={`${uid}-${i}`} gradientUnits="userSpaceOnUse"
+            x1={paint.start.x} y1={paint.start.y} x2={paint.end.x} y2={paint.end.y}>
+            <stop offset={0} stopColor={paint.from} />
+            <stop offset={1} stopColor={paint.to} />
+          </linearGradient>
+        ))}
+      </defs>
+      {painted.map(({ stretch, paint }, i) => (
+        <path key={stretch.node.id} d={cubicsToPath(stretch.segments)} fill="none" strokeWidth={strokeWidth} strokeLinecap="butt"
+          stroke={paint.kind === "flat" ? paint.color : `url(#${uid}-${i})`} />
+      ))}
+    </g>
+  );
+}
+
+export default ActivityPath;
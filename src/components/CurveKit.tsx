@@ -1,14 +1,46 @@
-import React, { useMemo, useRef, useState, useEffect, useCallback } from "react";
+import React, { useMemo, useRef, useState, useEffect, useCallback, useId } from "react";
 import type { CurveKitProps, Vec2, CurveState } from "../lib/types";
-import { buildParamLUT, pointAtTime, timeAtPoint } from "../lib/geometry/ParamMap";
-import { cubicNormal } from "../lib/geometry/Bezier";
+import { buildParamLUT, controlsToSegments, frameAtElapsed, frameAtTime, pointAtTime, segmentsBetween, timeAtPoint } from "../lib/geometry/ParamMap";
+import { cubicsToPath, offsetCubic } from "../lib/geometry/Bezier";
+import { selfIntersections } from "../lib/geometry/Intersect";
+import { fitStroke } from "../lib/geometry/Fit";
+import { MIN_CONTROLS, insertControl, removeControl } from "../lib/geometry/ControlEdit";
+import { buildSegmentIndex, nearestOnSegments } from "../lib/geometry/SpatialIndex";
+import { MIN_SPAN_SEC, assignLanes, hasSpan, laneOffset } from "../lib/spans";
+import { DAY_SEC, formatDayLabel, formatHM, formatTime, nowOnAxis, spanOf } from "../lib/time";
+import { type SnapTarget, snapTime } from "../lib/snap";
+import { type ConstraintLimit, constrainSpan, constrainTime, limitLabel } from "../lib/constraints";
+import { canSlide, isAnchor } from "../lib/roles";
+import { createDayModel, deviceTimeZone, formatInZone, nowElapsed, todayIn, wallExists } from "../lib/dayModel";
+import { describeSchedule, nodeAriaLabel } from "../lib/a11y";
+import { serpentineLayout } from "../lib/layout";
+import { type Viewport, fitViewport, fromView, layoutViewport, toView } from "../lib/viewport";
+import { nodeFace, resolveIcon } from "../lib/icons";
+import { inkOn, nodeFill } from "../lib/theme";
+import { stretchesByTime } from "../lib/activity";
+import { type PointerLike, trackPointer } from "../lib/gesture";
+import { usePointerGesture } from "../hooks/usePointerGesture";
+import { useContainerSize } from "../hooks/useContainerSize";
+import { useTheme } from "../hooks/useTheme";
+import { NodeIcon } from "./NodeIcon";
+import { ActivityPath } from "./ActivityPath";
 
 const PADDING = 24; // clamp rails for sculpt
+const MIN_STROKE = 40; // draw mode: shorter strokes are ignored (svg units)
 const NODE_R = 30;  // 60px touch target for mobile
 const TICK_EVERY = 2 * 3600;   // 2h
 const MAJOR_EVERY = 6 * 3600;  // 6h labels
+const DAY_LEN = 18;            // px half-length of day separators
 const TICK_LEN = 8;            // px half-length (minor) - larger for mobile
 const MAJOR_LEN = 12;          // px half-length (major) - larger for mobile
+const SPAN_W = 10;             // span arc stroke width
+const LANE_GAP = 12;           // px between stacked span lanes
+const FOCUS_GAP = 5;           // px between a focused element and its ring
+
+const visuallyHidden: React.CSSProperties = {
+  position: "absolute", width: 1, height: 1, margin: -1, padding: 0,
+  overflow: "hidden", clip: "rect(0 0 0 0)", whiteSpace: "nowrap", border: 0,
+};
 
 function usePrefersReducedMotion() {
   const [prefers, set] = useState(false);
@@ -46,24 +78,24 @@ function useIsMobile() {
   return isMobile;
 }
 
-function nowSec(): number {
-  const d = new Date();
-  return d.getHours() * 3600 + d.getMinutes() * 60 + d.getSeconds();
-}
-
-function formatHM(sec: number): string {
-  const h = Math.floor(sec / 3600) % 24;
-  const m = Math.floor((sec % 3600) / 60);
-  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
-}
-
 export function CurveKit(props: CurveKitProps): React.ReactElement {
-  const { curve, nodes, onCurveChange, onNodeChange, onNodeTap, mode = "view", readOnly } = props;
+  const { curve, nodes, onCurveChange, onNodeChange, onNodeSpanChange, onNodeTap, onGestureStart, onGestureEnd, mode = "view", readOnly, curveModel, arcLength, timeWarp, days = 1, startDate,
+    timeZone, secondTimeZone, keyboardStep = 300, keyboardLargeStep = 3600, nudgePx = 4, snap, constraints, crossings = "refuse", drawTolerancePx = 8,
+    wiggle = 0.6, labelSpacing = 2 * NODE_R + 12, resolveIcon: iconResolver, pathColors = "none",
+    theme: themePreference = "auto" } = props;
+  const span = spanOf(days);
   const svgRef = useRef<SVGSVGElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const theme = useTheme(containerRef, themePreference);
+  const uid = useId();
+  const [focused, setFocused] = useState<string | null>(null); // "node:<id>" | "handle:<i>"
+  const [announcement, setAnnouncement] = useState("");
+  const [snapTarget, setSnapTarget] = useState<SnapTarget | null>(null);
+  const [limit, setLimit] = useState<ConstraintLimit | null>(null); // a drag held back by a constraint
+  const [refused, setRefused] = useState<Vec2[]>([]); // crossings a refused sculpt move would have made
+  const [stroke, setStroke] = useState<Vec2[] | null>(null); // draw mode: the stroke being traced
   const prefersReduce = usePrefersReducedMotion();
   const isMobile = useIsMobile();
-  const isMobileRef = useRef(isMobile);
-  useEffect(() => { isMobileRef.current = isMobile; }, [isMobile]);
   const sculptMoveCountRef = useRef<number>(0);
 
   // --- Tier-0 buttery drag: imperative controller refs ---
@@ -77,6 +109,8 @@ export function CurveKit(props: CurveKitProps): React.ReactElement {
     pendingClientXY: { x: number; y: number } | null;
     lastEmitTs: number; // throttle onNodeChange to ~60Hz
     basePos: { x: number; y: number } | null; // base SVG position at drag start
+    startTime: number | null; // restored if the gesture is cancelled
+    free: boolean; // Alt held or a second finger down: no snapping
   };
   const drag = useRef<DragState>({
     id: null,
@@ -85,6 +119,8 @@ export function CurveKit(props: CurveKitProps): React.ReactElement {
     pendingClientXY: null,
     lastEmitTs: 0,
     basePos: null,
+    startTime: null,
+    free: false,
   });
 
   // map client → svg coords
@@ -99,6 +135,9 @@ export function CurveKit(props: CurveKitProps): React.ReactElement {
     return { x: sp.x, y: sp.y };
   }, []);
 
+  // screen px per SVG unit, for thresholds given in screen pixels
+  const screenScale = useCallback(() => svgRef.current?.getScreenCTM()?.a ?? 1, []);
+
   // First-run coachmark (long-press hint)
   const [coachmarkVisible, setCoachmarkVisible] = useState<boolean>(() => {
     try {
@@ -117,42 +156,57 @@ export function CurveKit(props: CurveKitProps): React.ReactElement {
     return () => clearTimeout(t);
   }, [coachmarkVisible]);
 
-  // Create mobile-optimized vertical curve
-  const mobileCurve = useMemo(() => {
-    if (!isMobile) return curve;
-    
-    // For mobile, create a vertical S-curve that spans the full height
-    const verticalControls = [
-      { x: 150, y: 50 },   // top
-      { x: 100, y: 200 },  // left curve
-      { x: 200, y: 400 },  // right curve  
-      { x: 150, y: 550 },  // bottom
-    ];
-    
-    return {
-      ...curve,
-      controls: verticalControls
-    };
-  }, [curve, isMobile]);
-
-  const activeCurve = isMobile ? mobileCurve : curve;
-  const lut = useMemo(() => buildParamLUT(activeCurve), [activeCurve]);
-
-  const pathD = useMemo(() => {
-    return lut.segments
-      .map((c, i) =>
-        `${i === 0 ? `M ${c.p0.x},${c.p0.y}` : ""} C ${c.p1.x},${c.p1.y} ${c.p2.x},${c.p2.y} ${c.p3.x},${c.p3.y}`
-      )
-      .join(" ");
-  }, [lut]);
-
-  const [nowTime, setNowTime] = useState<number>(() => nowSec());
+  // The curve is stored normalised and drawn through a viewport fitted to the container, time along
+  // its longer side; a curve without a shape of its own gets a serpentine laid out for the container.
+  const container = useContainerSize(containerRef, { width: 800, height: 300 });
+  const shape = useMemo(() => {
+    if (curve.controls.length >= 2) return curve.controls;
+    const layout = serpentineLayout({ ...container, count: nodes.length, wiggle, labelSpacing });
+    return layout.controls.map((p) => fromView(layoutViewport(layout), p));
+  }, [curve.controls, container, nodes.length, wiggle, labelSpacing]);
+  const fitted = useMemo(() => fitViewport(shape, container, { padding: PADDING + NODE_R }), [shape, container]);
+  const [heldViewport, setHeldViewport] = useState<Viewport | null>(null); // a sculpt drag keeps the frame still
+  const viewport = heldViewport ?? fitted;
+  const activeCurve = useMemo(() => ({ ...curve, controls: shape.map((p) => toView(viewport, p)) }), [curve, shape, viewport]);
+  // DST-aware days in the routine's zone; the second clock needs one even in the device zone
+  const dayModel = useMemo(() => {
+    const tz = timeZone ?? (secondTimeZone ? deviceTimeZone() : null);
+    return tz ? createDayModel(startDate ?? todayIn(tz), tz, days) : undefined;
+  }, [timeZone, secondTimeZone, startDate, days]);
+  const lut = useMemo(() => buildParamLUT(activeCurve, { model: curveModel, arcLength, warp: timeWarp, span, day: timeZone ? dayModel : undefined }),
+    [activeCurve, curveModel, arcLength, timeWarp, span, timeZone, dayModel]);
+
+  const pathD = useMemo(() => cubicsToPath(lut.segments), [lut]);
+  const stretches = useMemo(() => (pathColors === "none" ? [] : stretchesByTime(lut, nodes)), [lut, nodes, pathColors]);
+
+  // Tick times (thinned out for multi-day ranges so labels don't collide); also snap targets
+  const tickTimes = useMemo(() => {
+    const every = days > 1 ? 3 * TICK_EVERY : TICK_EVERY;
+    const out: number[] = [];
+    for (let t = 0; t <= span; t += every) if (!lut.day || wallExists(lut.day, t)) out.push(t);
+    return out;
+  }, [days, span, lut.day]);
+
+  // Duration events: exact sub-paths between start/end, overlapping spans stacked on lanes
+  const spans = useMemo(() => {
+    const lanes = assignLanes(nodes);
+    return nodes.filter(hasSpan).map((n) => {
+      const lane = lanes.get(n.id) ?? 0;
+      const offset = laneOffset(lane, LANE_GAP);
+      const cubics = segmentsBetween(lut, n.time, n.end).map((c) => (offset ? offsetCubic(c, offset) : c));
+      if (!cubics.length) return null;
+      return { node: n, lane, d: cubicsToPath(cubics), start: cubics[0].p0, end: cubics[cubics.length - 1].p3 };
+    }).filter((s): s is NonNullable<typeof s> => s !== null);
+  }, [nodes, lut]);
+
+  const [now, setNow] = useState(() => new Date());
   const [debugInfo, setDebugInfo] = useState<string>('');
   useEffect(() => {
     // light refresh of the now marker every 30s (0 animations if reduced motion)
-    const id = setInterval(() => setNowTime(nowSec()), 30_000);
+    setNow(new Date());
+    const id = setInterval(() => setNow(new Date()), 30_000);
     return () => clearInterval(id);
-  }, []);
+  }, [days, startDate]);
 
   const frame = useCallback(() => {
     const s = drag.current;
@@ -160,10 +214,18 @@ export function CurveKit(props: CurveKitProps): React.ReactElement {
 
     const { x, y } = s.pendingClientXY;
     const svgP = clientToSvg(x, y);
-    console.log('🎬 FRAME running for node:', s.id, 'svgP:', svgP);
     if (svgP) {
       // Always use curve-constrained movement for now (simpler)
-      const tSec = timeAtPoint(lut, svgP);
+      // stay on the branch being dragged where the path crosses itself
+      const near = lastTimeById.current.get(s.id) ?? nodes.find((n) => n.id === s.id)?.time;
+      const snapped = snapTime(lut, timeAtPoint(lut, svgP, { near }), snap, {
+        nodes, exclude: s.id, ticks: tickTimes, pxPerUnit: screenScale(), free: s.free,
+      });
+      // then hold it inside the node's window and between its neighbours
+      const held = constrainTime(nodes, s.id, snapped.time, constraints, span);
+      const tSec = held.time;
+      setSnapTarget(held.limit ? null : snapped.target);
+      setLimit(held.limit);
       const pos = pointAtTime(lut, tSec);
       const base = drag.current.basePos ?? pos;
       
@@ -191,183 +253,361 @@ export function CurveKit(props: CurveKitProps): React.ReactElement {
     }
 
     s.raf = requestAnimationFrame(frame);
-  }, [clientToSvg, lut, onNodeChange]);
+  }, [clientToSvg, screenScale, lut, onNodeChange, snap, constraints, nodes, tickTimes, span]);
 
-  const onMove = useCallback((e: PointerEvent) => {
+  // Node drags: one pointer gesture path for mouse, pen and touch feeds the rAF loop above
+  const finishNodeDrag = (commit: boolean) => {
     const s = drag.current;
-    if (s.pointerId !== e.pointerId) return;
-    console.log('🚀 MOVE event for node:', s.id, 'at', e.clientX, e.clientY);
-    s.pendingClientXY = { x: e.clientX, y: e.clientY };
-    if (!s.raf) {
-      console.log('Starting rAF for node:', s.id);
-      s.raf = requestAnimationFrame(frame);
+    if (!s.id) return;
+    if (s.raf) { cancelAnimationFrame(s.raf); s.raf = null; }
+    const el = nodeRefs.current[s.id];
+    if (el) {
+      el.style.transform = ''; // clear delta CSS transform
+      el.style.opacity = ''; // restore opacity
     }
-  }, [frame]);
+    // final commit (one last canonical time), or put the node back on cancel
+    const tFinal = commit ? lastTimeById.current.get(s.id) : s.startTime;
+    if (tFinal != null && onNodeChange) onNodeChange(s.id, tFinal);
+    lastTimeById.current.delete(s.id);
+    setSnapTarget(null);
+    setLimit(null);
+    onGestureEnd?.();
+    drag.current = { id: null, pointerId: null, raf: null, pendingClientXY: null, lastEmitTs: 0, basePos: null, startTime: null, free: false };
+  };
 
-  const onUp = useCallback((e: PointerEvent) => {
-    const s = drag.current;
-    if (s.pointerId !== e.pointerId) return;
+  const nodeGesture = usePointerGesture<string>({
+    onTap: (_p, id) => onNodeTap?.(id),
+    onLongPress: () => {
+      // hold-to-slide: same curve-constrained drag, with haptic confirmation
+      if (!readOnly && mode === "view" && navigator.vibrate) navigator.vibrate(30);
+    },
+    onDragStart: (p, id) => {
+      const n = nodes.find((x) => x.id === id);
+      if (!n) return;
+      // here a node's position follows its time, so anchors and pinned nodes stay put
+      if (!canSlide(n)) {
+        setDebugInfo(`BLOCKED: role=${n.role}`);
+        return;
+      }
+      if (readOnly || mode !== 'view') {
+        setDebugInfo(`BLOCKED: mode=${mode}`);
+        return;
+      }
+      const s = drag.current;
+      s.id = id;
+      s.pointerId = p.pointerId;
+      s.pendingClientXY = { x: p.x, y: p.y };
+      s.lastEmitTs = 0;
+      s.basePos = pointAtTime(lut, n.time);
+      s.startTime = n.time;
+      s.free = p.altKey || p.extraPointers > 0;
+      setDebugInfo(`START: node=${id} ${p.pointerType}=(${p.x},${p.y})`);
+      onGestureStart?.();
+      // Visual feedback
+      const el = nodeRefs.current[id];
+      if (el) {
+        el.style.transform = 'scale(1.3)';
+        el.style.opacity = '0.7';
+      }
+      if (!s.raf) s.raf = requestAnimationFrame(frame);
+    },
+    onDragMove: (p) => {
+      const s = drag.current;
+      if (!s.id || s.pointerId !== p.pointerId) return;
+      s.pendingClientXY = { x: p.x, y: p.y };
+      s.free = p.altKey || p.extraPointers > 0;
+      if (!s.raf) s.raf = requestAnimationFrame(frame);
+    },
+    onDragEnd: () => finishNodeDrag(true),
+    onCancel: () => finishNodeDrag(false),
+  });
 
-    if (s.raf) { cancelAnimationFrame(s.raf); s.raf = null; }
+  // Keyboard: arrows step a focused node's time on a `keyboardStep` grid; Enter/Space opens it
+  function handleNodeKey(id: string) {
+    return (e: React.KeyboardEvent) => {
+      const n = nodes.find((x) => x.id === id);
+      if (!n) return;
+      if (e.key === "Enter" || e.key === " ") {
+        e.preventDefault();
+        onNodeTap?.(id);
+        return;
+      }
+      if (readOnly || mode !== "view" || !onNodeChange || !canSlide(n)) return;
+      const step = e.shiftKey ? keyboardLargeStep : keyboardStep;
+      let next: number | null = null;
+      switch (e.key) {
+        case "ArrowRight": case "ArrowUp": next = Math.floor(n.time / step) * step + step; break;
+        case "ArrowLeft": case "ArrowDown": next = Math.ceil(n.time / step) * step - step; break;
+        case "PageUp": next = n.time + keyboardLargeStep; break;
+        case "PageDown": next = n.time - keyboardLargeStep; break;
+        case "Home": next = 0; break;
+        case "End": next = span; break;
+      }
+      if (next == null) return;
+      e.preventDefault();
+      const held = constrainTime(nodes, id, next, constraints, span);
+      const t = held.time;
+      onGestureStart?.();
+      onNodeChange(id, t);
+      onGestureEnd?.();
+      const end = n.end != null ? n.end + t - n.time : undefined;
+      const label = nodeAriaLabel({ ...n, time: t, end }, days, startDate);
+      setAnnouncement(held.limit ? `${label}; ${limitLabel(held.limit, nodes, days, startDate)}` : label);
+    };
+  }
 
-    // final commit (one last canonical time)
-    if (s.id) {
-      const tFinal = lastTimeById.current.get(s.id);
-      if (tFinal != null && onNodeChange) {
-        onNodeChange(s.id, tFinal);
+  // Keyboard: arrows nudge a focused sculpt handle by `nudgePx` (×5 with Shift); Delete removes it
+  function handleHandleKey(i: number) {
+    return (e: React.KeyboardEvent) => {
+      if (readOnly || mode !== "sculpt" || !onCurveChange) return;
+      if (e.key === "Delete" || e.key === "Backspace") {
+        e.preventDefault();
+        removeHandle(i);
+        return;
       }
-      const el = nodeRefs.current[s.id];
-      if (el) {
-        el.style.transform = ''; // clear delta CSS transform
-        el.style.opacity = ''; // restore opacity
+      const d = e.shiftKey ? 5 * nudgePx : nudgePx;
+      const dx = e.key === "ArrowRight" ? d : e.key === "ArrowLeft" ? -d : 0;
+      const dy = e.key === "ArrowDown" ? d : e.key === "ArrowUp" ? -d : 0;
+      if (!dx && !dy) return;
+      e.preventDefault();
+      const c = activeCurve.controls[i];
+      const moved = { x: c.x + dx, y: c.y + dy };
+      const next = withControl(i, moved);
+      if (wouldCross(next, crossingCount(curve))) {
+        setAnnouncement(`Curve control ${i + 1} not moved: the curve would cross itself`);
+        return;
       }
+      onGestureStart?.();
+      onCurveChange(next);
+      onGestureEnd?.();
+      setAnnouncement(`Curve control ${i + 1}: ${Math.round(moved.x)}, ${Math.round(moved.y)}`);
+    };
+  }
+
+  // Sculpting happens on screen; the curve keeps the normalised point
+  function withControl(i: number, p: Vec2): CurveState {
+    return { ...curve, controls: shape.map((v, idx) => (idx === i ? fromView(viewport, p) : v)) };
+  }
+
+  // Crossings are found on screen, where the tolerances are pixels
+  function viewSegments(c: CurveState) {
+    const controls = c.controls.length >= 2 ? c.controls : shape;
+    return controlsToSegments(controls.map((p) => toView(viewport, p)), c.tension, curveModel);
+  }
+
+  // Sculpt guard: "refuse" rejects moves that add crossings (an already-crossed curve may still be untangled)
+  function crossingCount(c: CurveState): number {
+    return selfIntersections(viewSegments(c)).length;
+  }
+
+  function wouldCross(next: CurveState, baseline: number): boolean {
+    if (crossings !== "refuse") return false;
+    const found = selfIntersections(viewSegments(next));
+    setRefused(found.length > baseline ? found.map((x) => x.point) : []);
+    return found.length > baseline;
+  }
+
+  // Sculpt: drag a handle to move it, hold it to remove it, tap the path to add one there
+  const sculptDrag = useRef<{ baseline: number } | null>(null);
+  const finishSculptDrag = () => {
+    if (!sculptDrag.current) return;
+    sculptDrag.current = null;
+    setRefused([]);
+    setHeldViewport(null);
+    onGestureEnd?.();
+    // Telemetry stub: sculpt change summary
+    if (sculptMoveCountRef.current > 0) {
+      // eslint-disable-next-line no-console
+      console.log("telemetry: curvekit_sculpt_change", { handles_moved: 1, events: sculptMoveCountRef.current });
     }
+  };
 
-    // cleanup listeners + touch-action
-    const svg = svgRef.current;
-    if (svg) svg.style.touchAction = isMobileRef.current ? 'none' : 'pan-y';
-    s.basePos = null;
-
-    document.removeEventListener('pointermove', onMove as any);
-    document.removeEventListener('pointerup', onUp as any);
-    document.removeEventListener('pointercancel', onUp as any);
-    // optional high-frequency input path
-    (document as any).removeEventListener?.('pointerrawupdate', onMove as any);
-
-    // reset
-    drag.current = { id: null, pointerId: null, raf: null, pendingClientXY: null, lastEmitTs: 0, basePos: null };
-  }, [onMove, onNodeChange]);
-
-  function handleNodeClick(id: string) {
-    return (_e: React.MouseEvent) => {
-      // if it was a drag, ignore click
-      if (drag.current.id) return; // If currently dragging, ignore click
-      onNodeTap?.(id);
+  const sculptGesture = usePointerGesture<number | "path">({
+    onDragStart: (_p, key, kind) => {
+      // a drag that follows a long-press is what is left of a removal
+      if (readOnly || mode !== "sculpt" || !onCurveChange || key === "path" || kind !== "drag") return;
+      sculptMoveCountRef.current = 0;
+      sculptDrag.current = { baseline: crossings === "refuse" ? crossingCount(curve) : 0 };
+      setHeldViewport(viewport);
+      onGestureStart?.();
+    },
+    onDragMove: (p, key) => {
+      const d = sculptDrag.current;
+      const svg = svgRef.current;
+      const q = clientToSvg(p.x, p.y);
+      if (!d || key === "path" || !onCurveChange || !svg || !q) return;
+      // Clamp within rails to avoid pathological loops
+      const bb = svg.viewBox.baseVal;
+      const x = Math.min(bb.width - PADDING, Math.max(PADDING, q.x));
+      const y = Math.min(bb.height - PADDING, Math.max(PADDING, q.y));
+      const next = withControl(key, { x, y });
+      if (wouldCross(next, d.baseline)) return; // the handle stays at its last untangled spot
+      onCurveChange(next);
+      sculptMoveCountRef.current += 1;
+    },
+    onDragEnd: () => finishSculptDrag(),
+    onCancel: () => finishSculptDrag(),
+    onLongPress: (_p, key) => {
+      if (key !== "path") removeHandle(key);
+    },
+    onTap: (p, key) => {
+      if (key === "path") insertHandle(p);
+    },
+  });
+
+  // Split the path where it was tapped; node times are untouched, so nodes stay at their times
+  function insertHandle(client: { x: number; y: number }) {
+    if (readOnly || mode !== "sculpt" || !onCurveChange) return;
+    const p = clientToSvg(client.x, client.y);
+    const hit = p && nearestOnSegments(lut.index ?? buildSegmentIndex(lut.segments), lut.segments, p);
+    if (!hit) return;
+    // split on screen, where the fit is measured in pixels; stored normalised
+    const controls = insertControl(activeCurve.controls, hit.seg, hit.t, curve.tension, curveModel).map((c) => fromView(viewport, c));
+    onGestureStart?.();
+    onCurveChange({ ...curve, controls });
+    onGestureEnd?.();
+    setAnnouncement(`Curve control ${hit.seg + 2} added; ${controls.length} in all`);
+  }
+
+  function removeHandle(i: number) {
+    if (readOnly || mode !== "sculpt" || !onCurveChange) return;
+    if (shape.length <= MIN_CONTROLS) {
+      setAnnouncement(`Curve control ${i + 1} kept: the curve needs at least ${MIN_CONTROLS}`);
+      return;
+    }
+    const controls = removeControl(activeCurve.controls, i, curve.tension, curveModel).map((c) => fromView(viewport, c));
+    const next = { ...curve, controls };
+    if (wouldCross(next, crossingCount(curve))) {
+      setAnnouncement(`Curve control ${i + 1} kept: the curve would cross itself`);
+      return;
+    }
+    if (navigator.vibrate) navigator.vibrate(30);
+    onGestureStart?.();
+    onCurveChange(next);
+    onGestureEnd?.();
+    setAnnouncement(`Curve control ${i + 1} removed; ${controls.length} left`);
+  }
+
+  // Draw mode: trace a stroke anywhere; on release it is fitted into new controls (one undo step)
+  function handleDrawStroke(e: React.PointerEvent) {
+    if (readOnly || mode !== "draw" || !onCurveChange) return;
+    const start = clientToSvg(e.clientX, e.clientY);
+    if (!start) return;
+    e.preventDefault();
+    const pts: Vec2[] = [start];
+    let length = 0;
+    setStroke(pts);
+    const move = (ev: PointerLike) => {
+      const p = clientToSvg(ev.clientX, ev.clientY);
+      if (!p) return;
+      const last = pts[pts.length - 1];
+      length += Math.hypot(p.x - last.x, p.y - last.y);
+      pts.push(p);
+      setStroke([...pts]);
     };
+    const up = () => {
+      setStroke(null);
+      if (length < MIN_STROKE) return; // a tap or a slip, not a drawing
+      // fitted on screen (the tolerance is in pixels), stored normalised
+      const controls = fitStroke(pts, { tolerancePx: drawTolerancePx, tension: curve.tension, model: curveModel, minAnchors: 4 })
+        .map((p) => fromView(viewport, p));
+      onGestureStart?.();
+      onCurveChange({ ...curve, controls });
+      onGestureEnd?.();
+      setAnnouncement(`Curve redrawn through ${controls.length} points`);
+    };
+    trackPointer(e.currentTarget, e.pointerId, { move, end: up, cancel: () => setStroke(null) });
   }
 
-  function handleHandleDrag(i: number) {
+  function handleSpanDrag(id: string, edge: "start" | "end") {
     return (e: React.PointerEvent) => {
-      if (readOnly || mode !== "sculpt" || !onCurveChange) return;
+      const n = nodes.find((x) => x.id === id);
+      if (readOnly || mode !== "view" || !onNodeSpanChange || !n || !hasSpan(n)) return;
+      if (edge === "start" && !canSlide(n)) return;
       e.preventDefault();
-      (e.target as Element).setPointerCapture(e.pointerId);
-      sculptMoveCountRef.current = 0;
-      const move = (ev: PointerEvent) => {
-        const svg = svgRef.current!;
-        const pt = svg.createSVGPoint();
-        pt.x = ev.clientX;
-        pt.y = ev.clientY;
-        const ctm = svg.getScreenCTM();
-        if (!ctm) return;
-        const p = pt.matrixTransform(ctm.inverse());
-        // Clamp within rails to avoid pathological loops
-        const bb = svg.viewBox.baseVal;
-        const x = Math.min(bb.width - PADDING, Math.max(PADDING, p.x));
-        const y = Math.min(bb.height - PADDING, Math.max(PADDING, p.y));
-        
-        let next: CurveState;
-        if (isMobile) {
-          // For mobile, we need to rotate back to original coordinates
-          const originalControl = { x: 400 - y, y: x };
-          next = {
-            ...curve,
-            controls: curve.controls.map((v, idx) => (idx === i ? originalControl : v)),
-          };
-        } else {
-          next = {
-            ...curve,
-            controls: curve.controls.map((v, idx) => (idx === i ? { x, y } : v)),
-          };
-        }
-        onCurveChange?.(next);
-        sculptMoveCountRef.current += 1;
+      e.stopPropagation();
+      // the opposite edge stays put for the whole drag
+      const { time, end } = n;
+      let near = edge === "start" ? time : end; // the edge's previous frame, for crossings
+      onGestureStart?.();
+      const move = (ev: PointerLike) => {
+        const p = clientToSvg(ev.clientX, ev.clientY);
+        if (!p) return;
+        const { time: t, target } = snapTime(lut, timeAtPoint(lut, p, { near }), snap, {
+          nodes, exclude: id, ticks: tickTimes, pxPerUnit: screenScale(), free: ev.altKey,
+        });
+        const held = constrainSpan(nodes, id, edge === "start"
+          ? { time: Math.min(t, end - MIN_SPAN_SEC), end }
+          : { time, end: Math.max(t, time + MIN_SPAN_SEC) }, edge, constraints, span);
+        setSnapTarget(held.limit ? null : target);
+        setLimit(held.limit);
+        near = edge === "start" ? held.time : held.end;
+        onNodeSpanChange(id, { time: held.time, end: held.end });
       };
       const up = () => {
-        window.removeEventListener("pointermove", move);
-        window.removeEventListener("pointerup", up);
-        // Telemetry stub: sculpt change summary
-        if (sculptMoveCountRef.current > 0) {
-          // eslint-disable-next-line no-console
-          console.log("telemetry: curvekit_sculpt_change", { handles_moved: 1, events: sculptMoveCountRef.current });
-        }
+        setSnapTarget(null);
+        setLimit(null);
+        onGestureEnd?.();
+      };
+      // on cancel the span goes back where it was
+      const cancel = () => {
+        onNodeSpanChange(id, { time, end });
+        up();
       };
-      window.addEventListener("pointermove", move);
-      window.addEventListener("pointerup", up);
+      trackPointer(e.currentTarget, e.pointerId, { move, end: up, cancel });
     };
   }
 
-  const viewBox = useMemo(() => {
-    const cs = activeCurve.controls;
-    if (!cs.length) return isMobile ? "0 0 300 600" : "0 0 800 300";
-    
-    let minX = Infinity,
-      minY = Infinity,
-      maxX = -Infinity,
-      maxY = -Infinity;
-    cs.forEach((p) => {
-      minX = Math.min(minX, p.x);
-      minY = Math.min(minY, p.y);
-      maxX = Math.max(maxX, p.x);
-      maxY = Math.max(maxY, p.y);
-    });
-    
-    // Dynamic sizing based on viewport
-    const viewportWidth = typeof window !== 'undefined' ? window.innerWidth : 800;
-    const viewportHeight = typeof window !== 'undefined' ? window.innerHeight : 600;
-    
-    if (isMobile) {
-      // Mobile: use viewport dimensions with padding
-      const w = Math.max(300, Math.min(400, viewportWidth - 40));
-      const h = Math.max(500, Math.min(800, viewportHeight - 100));
-      return `${minX - PADDING} ${minY - PADDING} ${w} ${h}`;
-    } else {
-      const w = Math.max(800, maxX - minX + PADDING * 2);
-      const h = Math.max(300, maxY - minY + PADDING * 2);
-      return `${minX - PADDING} ${minY - PADDING} ${w} ${h}`;
-    }
-  }, [activeCurve.controls, isMobile]);
+  // one unit per container pixel; the viewport does the fitting
+  const viewBox = `0 0 ${container.width} ${container.height}`;
+
+  const scheduleSummary = useMemo(() => describeSchedule(nodes, days, startDate), [nodes, days, startDate]);
 
   const easedStyle = prefersReduce ? {} : ({ transition: "transform 180ms ease-out" } as React.CSSProperties);
 
-  // === Orientation landmarks (ticks, labels, now marker, wake/sleep anchors) ===
+  // === Orientation landmarks (ticks, labels, now marker, start/end anchors) ===
   const ticks = useMemo(() => {
-    const arr: { t: number; x1: number; y1: number; x2: number; y2: number; label?: string }[] = [];
-    for (let t = 0; t <= 86400; t += TICK_EVERY) {
-      const p = pointAtTime(lut, t);
-      const g = (t / 86400);
-      const segIdx = Math.min(lut.segments.length - 1, Math.floor(g * lut.segments.length));
-      const localT = Math.max(0.001, Math.min(0.999, g * lut.segments.length - segIdx));
-      const n = cubicNormal(lut.segments[segIdx], localT);
-      const len = (t % MAJOR_EVERY === 0) ? MAJOR_LEN : TICK_LEN;
+    const arr: { t: number; x1: number; y1: number; x2: number; y2: number; label?: string; label2?: string; day?: string }[] = [];
+    const major = days > 1 ? 2 * MAJOR_EVERY : MAJOR_EVERY;
+    for (const t of tickTimes) {
+      const { p, n } = frameAtTime(lut, t);
+      // day separators (and the day label) at every midnight
+      const isDay = days > 1 && t % DAY_SEC === 0 && t < span;
+      const len = isDay ? DAY_LEN : (t % major === 0) ? MAJOR_LEN : TICK_LEN;
       const x1 = p.x - n.x * len, y1 = p.y - n.y * len;
       const x2 = p.x + n.x * len, y2 = p.y + n.y * len;
-      const label = (t % MAJOR_EVERY === 0) ? formatHM(t) : undefined;
-      arr.push({ t, x1, y1, x2, y2, label });
+      const label = (t % major === 0) ? formatHM(t) : undefined;
+      const label2 = label && secondTimeZone && dayModel ? formatInZone(dayModel, t, secondTimeZone) : undefined;
+      const day = isDay ? formatDayLabel(startDate, t / DAY_SEC) : undefined;
+      arr.push({ t, x1, y1, x2, y2, label, label2, day });
     }
     return arr;
-  }, [lut]);
+  }, [lut, tickTimes, span, days, startDate, secondTimeZone, dayModel]);
+
+  const snapPoint = useMemo(() => (snapTarget ? frameAtTime(lut, snapTarget.time) : null), [lut, snapTarget]);
+  const limitPoint = useMemo(() => (limit ? frameAtTime(lut, limit.time) : null), [lut, limit]);
 
+  // with a day model the marker moves in real elapsed time, so it doesn't jump back in a repeated hour
   const nowPoint = useMemo(() => {
-    const p = pointAtTime(lut, nowTime);
-    const g = (nowTime / 86400);
-    const segIdx = Math.min(lut.segments.length - 1, Math.floor(g * lut.segments.length));
-    const localT = Math.max(0.001, Math.min(0.999, g * lut.segments.length - segIdx));
-    const n = cubicNormal(lut.segments[segIdx], localT);
-    return { p, n };
-  }, [lut, nowTime]);
-
-  const wakeSleepAnchors = useMemo(() => {
-    const ws: { label: string; time: number }[] = [];
-    for (const n of nodes) {
-      const L = n.label.toLowerCase();
-      if (L.includes('wake')) ws.push({ label: 'Wake', time: n.time });
-      if (L.includes('sleep')) ws.push({ label: 'Sleep', time: n.time });
+    if (lut.day) {
+      const e = nowElapsed(lut.day, now);
+      return e == null ? null : frameAtElapsed(lut, e);
     }
-    return ws;
-  }, [nodes]);
+    const t = nowOnAxis(days, startDate, now);
+    return t == null ? null : frameAtTime(lut, t);
+  }, [lut, now, days, startDate]);
+
+  const anchors = useMemo(() => nodes.filter(isAnchor), [nodes]);
+
+  const crossingPoints = useMemo(() => {
+    if (mode !== "sculpt") return [];
+    if (crossings === "highlight") return selfIntersections(lut.segments).map((x) => x.point);
+    return refused;
+  }, [mode, crossings, lut, refused]);
 
   return (
     <div 
+      ref={containerRef}
       className={`w-full overflow-hidden`}
       style={{
         // Ensure proper mobile viewport handling
@@ -388,36 +628,76 @@ export function CurveKit(props: CurveKitProps): React.ReactElement {
         viewBox={viewBox}
         className="w-full h-full select-none bg-transparent"
         style={{ 
-          touchAction: isMobile ? "none" : "pan-y",
+          touchAction: isMobile || mode === "draw" ? "none" : "pan-y",
           // Ensure SVG fills container properly on all mobile browsers
           minHeight: isMobile ? '100%' : undefined,
           maxHeight: isMobile ? '100%' : undefined,
         }}
         preserveAspectRatio="xMidYMid meet"
+        data-timeline=""
+        role="group"
+        aria-labelledby={`${uid}-title`}
+        aria-describedby={`${uid}-desc`}
+        onPointerDown={handleDrawStroke}
       >
+        <title id={`${uid}-title`}>{days > 1 ? `${days}-day routine timeline` : "Daily routine timeline"}</title>
+        <desc id={`${uid}-desc`}>{scheduleSummary}</desc>
+
         {/* Curve path */}
-        <path d={pathD} fill="none" stroke="currentColor" strokeWidth={isMobile ? 4 : 3} strokeLinecap="round" />
+        <path d={pathD} fill="none" stroke={theme.path} strokeWidth={isMobile ? 4 : 3} strokeLinecap="round" aria-hidden="true" />
+        {pathColors !== "none" && <ActivityPath stretches={stretches} coloring={pathColors} theme={theme} strokeWidth={isMobile ? 4 : 3} />}
 
         {/* Arc-length ticks + labels (behind nodes) */}
         {ticks.map((tk) => (
-          <g key={`tick-${tk.t}`}>
-            <line x1={tk.x1} y1={tk.y1} x2={tk.x2} y2={tk.y2} className="stroke-gray-400/60" strokeWidth={isMobile ? 2 : 1}/>
+          <g key={`tick-${tk.t}`} aria-hidden="true">
+            <line x1={tk.x1} y1={tk.y1} x2={tk.x2} y2={tk.y2} stroke={tk.day ? theme.dayTick : theme.tick} strokeWidth={tk.day ? 2 : isMobile ? 2 : 1}/>
+            {tk.day && (
+              <text x={tk.x1 - (tk.x2 - tk.x1) * 0.3} y={tk.y1 - (tk.y2 - tk.y1) * 0.3}
+                    fill={theme.dayTick} className={`font-medium select-none ${isMobile ? 'text-sm' : 'text-xs'}`} textAnchor="end" dominantBaseline="middle">
+                {tk.day}
+              </text>
+            )}
             {tk.label && (
               <text x={tk.x2 + (tk.x2 - tk.x1) * 0.4} y={tk.y2 + (tk.y2 - tk.y1) * 0.4}
-                    className={`fill-gray-500 select-none ${isMobile ? 'text-sm' : 'text-[10px]'}`} textAnchor="start" dominantBaseline="middle">
+                    fill={theme.muted} className={`select-none ${isMobile ? 'text-sm' : 'text-[10px]'}`} textAnchor="start" dominantBaseline="middle">
                 {tk.label}
+                {tk.label2 && <tspan opacity={0.75}> · {tk.label2}</tspan>}
               </text>
             )}
           </g>
         ))}
 
-        {/* Wake/Sleep anchors (quiet markers) */}
-        {wakeSleepAnchors.map(({ label, time }) => {
+        {/* Duration spans (between path and nodes) */}
+        {spans.map(({ node, d, start, end }) => (
+          <g key={`span-${node.id}`}>
+            <path d={d} fill="none" stroke={nodeFill(node.color, theme)} strokeWidth={SPAN_W} strokeLinecap="round" opacity={0.55} />
+            {!readOnly && mode === "view" && onNodeSpanChange && (["start", "end"] as const).map((edge) => {
+              const p = edge === "start" ? start : end;
+              return (
+                <circle
+                  key={edge}
+                  cx={p.x}
+                  cy={p.y}
+                  r={isMobile ? 10 : 7}
+                  fill={theme.background}
+                  stroke={nodeFill(node.color, theme)}
+                  strokeWidth={2}
+                  style={{ cursor: "ew-resize", touchAction: "none" }}
+                  data-export="transient"
+                  onPointerDown={handleSpanDrag(node.id, edge)}
+                />
+              );
+            })}
+          </g>
+        ))}
+
+        {/* Start/end anchors (quiet markers) */}
+        {anchors.map(({ id, label, time }) => {
           const p = pointAtTime(lut, time);
           return (
-            <g key={`ws-${label}`} transform={`translate(${p.x}, ${p.y})`}>
-              <circle r={isMobile ? 8 : 6} className="fill-transparent stroke-gray-500/70" strokeWidth={isMobile ? 2 : 1.5}/>
-              <text x={isMobile ? 12 : 10} y={0} className={`fill-gray-600 ${isMobile ? 'text-sm' : 'text-xs'}`} dominantBaseline="middle">{label}</text>
+            <g key={`anchor-${id}`} transform={`translate(${p.x}, ${p.y})`}>
+              <circle r={isMobile ? 8 : 6} fill="none" stroke={theme.dayTick} strokeOpacity={0.7} strokeWidth={isMobile ? 2 : 1.5}/>
+              <text x={isMobile ? 12 : 10} y={0} fill={theme.muted} className={isMobile ? 'text-sm' : 'text-xs'} dominantBaseline="middle">{label}</text>
             </g>
           );
         })}
@@ -425,110 +705,137 @@ export function CurveKit(props: CurveKitProps): React.ReactElement {
         {/* Nodes */}
         {nodes.map((n) => {
           const p = pointAtTime(lut, n.time);
+          const face = nodeFace(n.label, NODE_R, isMobile ? 14 : 12, resolveIcon(n.icon, iconResolver) !== null);
+          const fill = nodeFill(n.color, theme), ink = inkOn(fill, theme);
           return (
             <g
               key={n.id}
               ref={el => { nodeRefs.current[n.id] = el; }}
               transform={`translate(${p.x}, ${p.y})`}
-              style={{ transformBox: 'fill-box', transformOrigin: 'center', willChange: 'transform' }}
-              onTouchStart={(e) => {
-                e.preventDefault();
-                if (readOnly || mode !== 'view') {
-                  setDebugInfo(`BLOCKED: mode=${mode}`);
-                  return;
-                }
-                
-                const touch = e.touches[0];
-                const s = drag.current;
-                s.id = n.id;
-                s.pointerId = touch.identifier;
-                s.pendingClientXY = { x: touch.clientX, y: touch.clientY };
-                s.lastEmitTs = 0;
-                s.basePos = pointAtTime(lut, n.time);
-                
-                setDebugInfo(`START: node=${n.id} touch=(${touch.clientX},${touch.clientY})`);
-                
-                // Visual feedback
-                const el = nodeRefs.current[s.id];
-                if (el) {
-                  el.style.transform = 'scale(1.3)';
-                  el.style.opacity = '0.7';
-                }
-                
-                if (!s.raf) s.raf = requestAnimationFrame(frame);
-              }}
-              onTouchMove={(e) => {
-                e.preventDefault();
-                const s = drag.current;
-                if (!s.id) return;
-                
-                const touch = Array.from(e.touches).find(t => t.identifier === s.pointerId);
-                if (!touch) return;
-                
-                s.pendingClientXY = { x: touch.clientX, y: touch.clientY };
-                if (!s.raf) s.raf = requestAnimationFrame(frame);
-              }}
-              onTouchEnd={(e) => {
-                e.preventDefault();
-                const s = drag.current;
-                if (!s.id) return;
-                
-                if (s.raf) {
-                  cancelAnimationFrame(s.raf);
-                  s.raf = null;
-                }
-                
-                const el = nodeRefs.current[s.id];
-                if (el) {
-                  el.style.transform = '';
-                  el.style.opacity = '';
-                }
-                
-                const tFinal = lastTimeById.current.get(s.id);
-                if (tFinal != null && onNodeChange) {
-                  onNodeChange(s.id, tFinal);
-                }
-                
-                drag.current = { id: null, pointerId: null, raf: null, pendingClientXY: null, lastEmitTs: 0, basePos: null };
-              }}
+              style={{ transformBox: 'fill-box', transformOrigin: 'center', willChange: 'transform', outline: 'none', touchAction: 'none' }}
+              tabIndex={0}
+              role="slider"
+              aria-label={n.label}
+              aria-valuemin={0}
+              aria-valuemax={span}
+              aria-valuenow={Math.round(n.time)}
+              aria-valuetext={nodeAriaLabel(n, days, startDate)}
+              aria-readonly={readOnly || mode !== 'view' || !canSlide(n) || undefined}
+              onKeyDown={handleNodeKey(n.id)}
+              onFocus={() => setFocused(`node:${n.id}`)}
+              onBlur={() => setFocused(null)}
+              {...nodeGesture.bind(n.id)}
             >
+              {focused === `node:${n.id}` && (
+                <circle r={NODE_R + FOCUS_GAP} fill="none" stroke={theme.focus} strokeWidth={2} strokeDasharray="4 3" data-export="transient" />
+              )}
               {/* Larger touch target for mobile - with visual feedback */}
               <circle r={isMobile ? 40 : NODE_R} className="fill-transparent" style={{ cursor: 'grab' }} />
-              <circle r={NODE_R} className="fill-white stroke-current" strokeWidth={isMobile ? 3 : 2} style={{ 
+              <circle r={NODE_R} fill={fill} stroke={theme.nodeRing} strokeWidth={isMobile ? 3 : 2} style={{ 
                 filter: 'drop-shadow(0 2px 4px rgba(0,0,0,0.2))',
                 cursor: 'grab'
               }} />
-              <text y={isMobile ? 8 : 5} textAnchor="middle" className={`fill-current ${isMobile ? 'text-sm font-medium' : 'text-xs'}`} style={{ pointerEvents: 'none' }}>{n.label}</text>
+              {face.icon && <NodeIcon icon={n.icon} x={0} y={face.icon.y} size={face.icon.size} color={ink} resolver={iconResolver} />}
+              <text y={face.label.y} textAnchor="middle" dominantBaseline="central" fill={face.label.inside ? ink : theme.ink}
+                className={isMobile ? 'text-sm font-medium' : 'text-xs'} style={{ pointerEvents: 'none' }}>{n.label}</text>
             </g>
           );
         })}
 
+        {/* Snap indicator: the target the dragged time is held on */}
+        {snapTarget && snapPoint && (() => {
+          const { p, n } = snapPoint;
+          const len = MAJOR_LEN + 4;
+          return (
+            <g aria-hidden="true" style={{ pointerEvents: "none" }} data-export="transient">
+              <line x1={p.x - n.x * len} y1={p.y - n.y * len} x2={p.x + n.x * len} y2={p.y + n.y * len}
+                    stroke={theme.snap} strokeWidth={isMobile ? 3 : 2} strokeLinecap="round" />
+              <circle cx={p.x} cy={p.y} r={NODE_R + FOCUS_GAP} fill="none" stroke={theme.snap} strokeWidth={1.5} strokeDasharray="3 3" />
+              <text x={p.x - n.x * (len + 6)} y={p.y - n.y * (len + 6)} fill={theme.snap} className={`font-medium ${isMobile ? 'text-sm' : 'text-xs'}`}
+                    textAnchor="middle" dominantBaseline="middle">
+                {formatTime(snapTarget.time, days, startDate)}
+              </text>
+            </g>
+          );
+        })()}
+
+        {/* Constraint feedback: a stop bar where the drag is held, and why */}
+        {limit && limitPoint && (() => {
+          const { p, n } = limitPoint;
+          const len = MAJOR_LEN + 6;
+          return (
+            <g aria-hidden="true" style={{ pointerEvents: "none" }} data-export="transient">
+              <line x1={p.x - n.x * len} y1={p.y - n.y * len} x2={p.x + n.x * len} y2={p.y + n.y * len}
+                    stroke={theme.limit} strokeWidth={isMobile ? 4 : 3} strokeLinecap="round" />
+              <text x={p.x - n.x * (len + 8)} y={p.y - n.y * (len + 8)} fill={theme.limit} className={`font-medium ${isMobile ? 'text-sm' : 'text-xs'}`}
+                    textAnchor="middle" dominantBaseline="middle">
+                {limitLabel(limit, nodes, days, startDate)}
+              </text>
+            </g>
+          );
+        })()}
+
+        {/* Draw mode: the stroke being traced */}
+        {stroke && (
+          <polyline points={stroke.map((p) => `${p.x},${p.y}`).join(" ")} fill="none" stroke={theme.snap}
+                    strokeWidth={isMobile ? 4 : 3} strokeLinecap="round" strokeLinejoin="round" opacity={0.7}
+                    aria-hidden="true" style={{ pointerEvents: "none" }} data-export="transient" />
+        )}
+
+        {/* Self-intersections: where the path crosses (highlight) or would have (refuse) */}
+        {crossingPoints.map((p, k) => (
+          <g key={`x-${k}`} aria-hidden="true" style={{ pointerEvents: "none" }} data-export="transient">
+            <circle cx={p.x} cy={p.y} r={isMobile ? 12 : 9} fill="none" stroke={theme.limit} strokeWidth={2.5} />
+            <path d={`M ${p.x - 4} ${p.y - 4} L ${p.x + 4} ${p.y + 4} M ${p.x + 4} ${p.y - 4} L ${p.x - 4} ${p.y + 4}`} stroke={theme.limit} strokeWidth={2} />
+          </g>
+        ))}
+
         {/* Now marker (on top) */}
-        {(() => {
+        {nowPoint && (() => {
           const { p, n } = nowPoint;
           const len = MAJOR_LEN + 6;
           const x1 = p.x - n.x * len, y1 = p.y - n.y * len;
           const x2 = p.x + n.x * len, y2 = p.y + n.y * len;
           return (
-            <g>
-              <line x1={x1} y1={y1} x2={x2} y2={y2} className="stroke-emerald-500" strokeWidth={isMobile ? 3 : 2}/>
-              <circle cx={p.x} cy={p.y} r={isMobile ? 6 : 4} className="fill-emerald-500"/>
-              <text x={x2 + (isMobile ? 8 : 6)} y={y2} className={`fill-emerald-600 ${isMobile ? 'text-sm font-medium' : 'text-xs'}`} dominantBaseline="middle">now</text>
+            <g aria-hidden="true" data-export="now">
+              <line x1={x1} y1={y1} x2={x2} y2={y2} stroke={theme.now} strokeWidth={isMobile ? 3 : 2}/>
+              <circle cx={p.x} cy={p.y} r={isMobile ? 6 : 4} fill={theme.now}/>
+              <text x={x2 + (isMobile ? 8 : 6)} y={y2} fill={theme.now} className={isMobile ? 'text-sm font-medium' : 'text-xs'} dominantBaseline="middle">now</text>
             </g>
           );
         })()}
 
+        {/* Sculpt: a wide invisible stroke over the path takes the taps that add handles */}
+        {mode === "sculpt" && !readOnly && onCurveChange && (
+          <path d={pathD} fill="none" stroke="transparent" strokeWidth={isMobile ? 32 : 20} strokeLinecap="round"
+            style={{ cursor: "copy", touchAction: "none" }} data-export="transient" {...sculptGesture.bind("path")} />
+        )}
+
         {/* Sculpt handles */}
         {mode === "sculpt" &&
           activeCurve.controls.map((c, i) => (
-            <g key={`h-${i}`} transform={`translate(${c.x}, ${c.y})`}>
-              <circle r={isMobile ? 12 : 8} className="fill-cyan-500/80 cursor-grab" onPointerDown={handleHandleDrag(i)} />
+            <g
+              key={`h-${i}`}
+              transform={`translate(${c.x}, ${c.y})`}
+              data-export="transient"
+              tabIndex={0}
+              role="button"
+              aria-label={`Curve control ${i + 1} of ${activeCurve.controls.length}; arrow keys move it, Delete removes it`}
+              style={{ outline: "none" }}
+              onKeyDown={handleHandleKey(i)}
+              onFocus={() => setFocused(`handle:${i}`)}
+              onBlur={() => setFocused(null)}
+            >
+              {focused === `handle:${i}` && (
+                <circle r={(isMobile ? 12 : 8) + FOCUS_GAP} fill="none" stroke={theme.focus} strokeWidth={2} data-export="transient" />
+              )}
+              <circle r={isMobile ? 12 : 8} fill={theme.handle} className="cursor-grab" style={{ touchAction: "none" }} {...sculptGesture.bind(i)} />
             </g>
           ))}
 
         {/* Debug Info */}
         {debugInfo && (
-          <g transform="translate(20, 30)">
+          <g transform="translate(20, 30)" data-export="debug">
             <rect x={-10} y={-20} width={350} height={30} rx={4} className="fill-black/80" />
             <text x={0} y={0} className="fill-green-400 text-xs font-mono">
               {debugInfo}
@@ -538,14 +845,15 @@ export function CurveKit(props: CurveKitProps): React.ReactElement {
 
         {/* Coachmark */}
         {coachmarkVisible && !debugInfo && (
-          <g transform={`translate(${typeof window !== 'undefined' ? 16 : 16}, ${typeof window !== 'undefined' ? 20 : 20})`}>
-            <rect x={-8} y={-16} width={isMobile ? 200 : 170} height={isMobile ? 32 : 28} rx={6} className="fill-black/70" />
-            <text x={0} y={0} className={`fill-white ${isMobile ? 'text-sm' : 'text-xs'}`}>
-              {isMobile ? 'drag anywhere • tap to edit' : 'hold to sculpt • drag to reorder'}
+          <g transform={`translate(${typeof window !== 'undefined' ? 16 : 16}, ${typeof window !== 'undefined' ? 20 : 20})`} data-export="coachmark">
+            <rect x={-8} y={-16} width={isMobile ? 200 : 170} height={isMobile ? 32 : 28} rx={6} fill={theme.overlay} opacity={0.9} />
+            <text x={0} y={0} fill={theme.overlayInk} className={isMobile ? 'text-sm' : 'text-xs'}>
+              drag along the curve • tap to edit
             </text>
           </g>
         )}
       </svg>
+      <div aria-live="polite" style={visuallyHidden}>{announcement}</div>
     </div>
   );
 }
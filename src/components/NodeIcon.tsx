@@ -0,0 +1,35 @@
+import React, { useState } from "react";
+import type { IconDef, IconResolver } from "../lib/types";
+import { FALLBACK_ICON, resolveIcon } from "../lib/icons";
+
+export type NodeIconProps = {
+  icon: string;                // NodeModel.icon: token or URL
+  x: number;                   // centre
+  y: number;
+  size: number;                // side of the square the icon fills
+  color?: string;              // stroke for drawn icons (default currentColor)
+  resolver?: IconResolver;     // host override, consulted first
+};
+
+/** A node's icon as inline SVG: drawn tokens, or an image that falls back to a plain mark if it fails to load. */
+export function NodeIcon({ icon, x, y, size, color = "currentColor", resolver }: NodeIconProps): React.ReactElement | null {
+  const [failed, setFailed] = useState<string | null>(null);
+  const resolved = resolveIcon(icon, resolver);
+  if (!resolved) return null;
+  const box = { x: x - size / 2, y: y - size / 2, width: size, height: size };
+  if (resolved.kind === "url" && failed !== resolved.href) {
+    return (
+      <image href={resolved.href} {...box} preserveAspectRatio="xMidYMid meet" aria-hidden="true" color={color}
+        style={{ pointerEvents: "none" }} onError={() => setFailed(resolved.href)} />
+    );
+  }
+  const def: IconDef = resolved.kind === "symbol" ? resolved.def : FALLBACK_ICON;
+  return (
+    <svg {...box} viewBox={def.viewBox ?? "0 0 24 24"} fill="none" stroke={color} strokeWidth={2}
+      strokeLinecap="round" strokeLinejoin="round" aria-hidden="true" style={{ pointerEvents: "none", overflow: "visible" }}>
+      {def.paths.map((d, i) => <path key={i} d={d} />)}
+    </svg>
+  );
+}
+
+export default NodeIcon;
@@ -0,0 +1,119 @@
+import React, { useEffect, useId, useRef } from "react";
+import type { NodeModel, Theme, TimeSec } from "../lib/types";
+import { DAY_SEC, dayIndex, formatDayLabel, formatHM, parseHM } from "../lib/time";
+import { canChangeTime } from "../lib/roles";
+import { nodeFill } from "../lib/theme";
+
+export type NodeSheetProps = {
+  node: NodeModel;
+  days: number;
+  startDate: string | null;
+  icons: string[];                          // tokens offered for the icon field
+  theme: Theme;
+  canDelete: boolean;
+  focusLabel?: boolean;                     // a node just created opens ready to be named
+  onEdit: (patch: Partial<Pick<NodeModel, "label" | "icon" | "color">>) => void; // while typing
+  onEditEnd: () => void;                    // a field was left: what was typed is one step
+  onTimeChange: (time: TimeSec) => void;    // also merged until onEditEnd
+  onDelete: () => void;
+  onDuplicate: () => void;
+  onClose: () => void;
+};
+
+const HEX = /^#[0-9a-f]{6}$/i;
+
+const field: React.CSSProperties = {
+  width: "100%", padding: "8px 10px", borderRadius: 8, borderWidth: 1, borderStyle: "solid", fontSize: 16, boxSizing: "border-box",
+};
+const button: React.CSSProperties = {
+  flex: 1, padding: "10px 12px", borderRadius: 999, border: "none", fontSize: 15, fontWeight: 600,
+};
+
+/** Bottom sheet for one node: label, time, colour and icon, plus duplicate and delete. */
+export function NodeSheet(props: NodeSheetProps): React.ReactElement {
+  const { node, days, startDate, icons, theme, canDelete, focusLabel, onEdit, onEditEnd, onTimeChange, onDelete, onDuplicate, onClose } = props;
+  const uid = useId();
+  const labelRef = useRef<HTMLInputElement | null>(null);
+  const timeLocked = !canChangeTime(node);
+  const day = dayIndex(node.time, days);
+  const input: React.CSSProperties = { ...field, borderColor: theme.muted, background: theme.background, color: theme.ink };
+
+  useEffect(() => {
+    if (focusLabel) labelRef.current?.select();
+  }, [node.id, focusLabel]);
+
+  const setClock = (hm: string, d = day) => {
+    const sec = parseHM(hm);
+    if (sec != null) onTimeChange(d * DAY_SEC + sec);
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-labelledby={`${uid}-title`}
+      onKeyDown={(e) => { if (e.key === "Escape") onClose(); }}
+      onPointerDown={(e) => e.stopPropagation()}
+      style={{
+        position: "absolute", left: 0, right: 0, bottom: 0, padding: "16px 16px 24px", background: theme.overlay, color: theme.overlayInk,
+        borderRadius: "16px 16px 0 0", boxShadow: "0 -4px 16px rgba(0,0,0,0.15)", display: "grid", gap: 12,
+        maxWidth: 480, margin: "0 auto", touchAction: "auto",
+      }}
+    >
+      <div style={{ display: "flex", alignItems: "center", gap: 8 }}>
+        <span aria-hidden="true" style={{ width: 16, height: 16, borderRadius: 8, background: nodeFill(node.color, theme) }} />
+        <h2 id={`${uid}-title`} style={{ flex: 1, margin: 0, fontSize: 18 }}>Edit {node.label || "node"}</h2>
+        <button type="button" onClick={onClose} aria-label="Close" style={{ border: "none", background: "none", color: "inherit", fontSize: 22 }}>×</button>
+      </div>
+
+      <label style={{ display: "grid", gap: 4 }}>
+        Label
+        <input ref={labelRef} style={input} value={node.label} onChange={(e) => onEdit({ label: e.target.value })} onBlur={onEditEnd} />
+      </label>
+
+      <div style={{ display: "flex", gap: 8 }}>
+        {days > 1 && (
+          <label style={{ display: "grid", gap: 4, flex: 1 }}>
+            Day
+            <select style={input} value={day} disabled={timeLocked}
+              onChange={(e) => setClock(formatHM(node.time), Number(e.target.value))} onBlur={onEditEnd}>
+              {Array.from({ length: days }, (_, i) => <option key={i} value={i}>{formatDayLabel(startDate, i)}</option>)}
+            </select>
+          </label>
+        )}
+        <label style={{ display: "grid", gap: 4, flex: 1 }}>
+          Time
+          <input type="time" style={input} value={formatHM(node.time)} disabled={timeLocked}
+            title={timeLocked ? "This node's time is fixed" : undefined} onChange={(e) => setClock(e.target.value)} onBlur={onEditEnd} />
+        </label>
+      </div>
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <label style={{ display: "grid", gap: 4 }}>
+          Colour
+          <input type="color" style={{ ...input, width: 64, padding: 2, height: 40 }} value={HEX.test(node.color) ? node.color : theme.node}
+            onChange={(e) => onEdit({ color: e.target.value })} onBlur={onEditEnd} />
+        </label>
+        <label style={{ display: "grid", gap: 4, flex: 1 }}>
+          Icon
+          <input style={input} list={`${uid}-icons`} value={node.icon} placeholder="name or URL"
+            onChange={(e) => onEdit({ icon: e.target.value })} onBlur={onEditEnd} />
+          <datalist id={`${uid}-icons`}>
+            {icons.map((icon) => <option key={icon} value={icon} />)}
+          </datalist>
+        </label>
+      </div>
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <button type="button" onClick={onDuplicate} style={{ ...button, background: theme.background, color: theme.ink }}>Duplicate</button>
+        <button type="button" onClick={onDelete} disabled={!canDelete}
+          title={canDelete ? undefined : "The curve needs at least two nodes"}
+          style={{ ...button, background: "none", boxShadow: `inset 0 0 0 1px ${canDelete ? theme.limit : theme.muted}`,
+            color: canDelete ? theme.limit : theme.muted }}>
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
+
+export default NodeSheet;
@@ -0,0 +1,30 @@
+import type React from "react";
+import { useEffect, useState } from "react";
+
+export type Size = { width: number; height: number };
+
+/**
+ * Whole-pixel size of `ref`'s element, kept current by a ResizeObserver (window
+ * resizes where there is none). `fallback` stands in until the first measurement.
+ */
+export function useContainerSize(ref: React.RefObject<Element | null>, fallback: Size): Size {
+  const [size, setSize] = useState(fallback);
+  useEffect(() => {
+    const el = ref.current;
+    if (!el) return;
+    const measure = () => {
+      const r = el.getBoundingClientRect();
+      const width = Math.round(r.width), height = Math.round(r.height);
+      if (width > 0 && height > 0) setSize((s) => (s.width === width && s.height === height ? s : { width, height }));
+    };
+    measure();
+    if (typeof ResizeObserver === "undefined") {
+      window.addEventListener("resize", measure);
+      return () => window.removeEventListener("resize", measure);
+    }
+    const ro = new ResizeObserver(measure);
+    ro.observe(el);
+    return () => ro.disconnect();
+  }, [ref]);
+  return size;
+}
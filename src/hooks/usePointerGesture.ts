@@ -0,0 +1,49 @@
+import type React from "react";
+import { useEffect, useMemo, useRef } from "react";
+import { createGestureRecognizer, type GestureHandlers, type GestureOptions } from "../lib/gesture";
+
+/**
+ * One recognizer per component; `bind(key)` returns the pointer props for an
+ * element, and handlers receive that key. Handlers and options are read fresh
+ * on every event, so closures over render state stay current.
+ */
+export function usePointerGesture<K>(handlers: GestureHandlers<K>, options?: GestureOptions) {
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const recognizer = useMemo(() => createGestureRecognizer<K>(() => handlersRef.current, () => optionsRef.current), []);
+  useEffect(() => {
+    // Pointers landing outside bound elements (a second finger on the background)
+    // still count: they cancel an unresolved press or show up as `extraPointers`.
+    const onDown = (e: PointerEvent) => {
+      if (recognizer.active !== null) recognizer.down(e, recognizer.active);
+    };
+    const onUp = (e: PointerEvent) => recognizer.up(e);
+    window.addEventListener("pointerdown", onDown, true);
+    window.addEventListener("pointerup", onUp, true);
+    return () => {
+      window.removeEventListener("pointerdown", onDown, true);
+      window.removeEventListener("pointerup", onUp, true);
+      recognizer.cancel();
+    };
+  }, [recognizer]);
+
+  return useMemo(() => ({
+    recognizer,
+    bind: (key: K) => ({
+      onPointerDown: (e: React.PointerEvent<Element>) => {
+        e.stopPropagation();
+        if (!recognizer.down(e, key)) return;
+        e.preventDefault();
+        // keep receiving moves when the pointer leaves the (small) target
+        e.currentTarget.setPointerCapture?.(e.pointerId);
+      },
+      onPointerMove: (e: React.PointerEvent<Element>) => recognizer.move(e),
+      onPointerUp: (e: React.PointerEvent<Element>) => recognizer.up(e),
+      onPointerCancel: (e: React.PointerEvent<Element>) => recognizer.cancel(e),
+      // after a pointerup the gesture is already over; otherwise the browser cut it off
+      onLostPointerCapture: (e: React.PointerEvent<Element>) => recognizer.cancel(e),
+    }),
+  }), [recognizer]);
+}
@@ -0,0 +1,54 @@
+import type React from "react";
+import { useEffect, useLayoutEffect, useState } from "react";
+import type { Theme, ThemeName } from "../lib/types";
+import { THEMES, resolveTheme, systemThemeName } from "../lib/theme";
+
+const QUERIES = { dark: "(prefers-color-scheme: dark)", moreContrast: "(prefers-contrast: more)" };
+
+function readSystem(): ThemeName {
+  if (typeof window === "undefined" || !window.matchMedia) return "light";
+  return systemThemeName({ dark: window.matchMedia(QUERIES.dark).matches, moreContrast: window.matchMedia(QUERIES.moreContrast).matches });
+}
+
+/**
+ * The timeline's colours: `preference` (or the system's pick under "auto"),
+ * overridden by any `--serpentime-*` custom properties that reach `ref`'s element.
+ * Properties set through inline styles or classes are picked up as they change;
+ * a stylesheet edited in place is not observed.
+ */
+export function useTheme(ref: React.RefObject<Element | null>, preference: ThemeName | "auto" = "auto"): Theme {
+  const [system, setSystem] = useState<ThemeName>(readSystem);
+  useEffect(() => {
+    if (preference !== "auto" || typeof window === "undefined" || !window.matchMedia) return;
+    const lists = Object.values(QUERIES).map((q) => window.matchMedia(q));
+    const h = () => setSystem(readSystem());
+    h();
+    lists.forEach((m) => m.addEventListener("change", h));
+    return () => lists.forEach((m) => m.removeEventListener("change", h));
+  }, [preference]);
+
+  const name = preference === "auto" ? system : preference;
+  const [theme, setTheme] = useState<Theme>(THEMES[name]);
+  // Before paint, so the first frame has the host's colours. Custom properties
+  // cascade, so a style or class change on the element or any ancestor re-reads them.
+  useLayoutEffect(() => {
+    const el = ref.current;
+    const read = () => {
+      const style = el ? getComputedStyle(el) : null;
+      const next = resolveTheme(THEMES[name], (prop) => style?.getPropertyValue(prop) ?? "");
+      setTheme((prev) => (sameTheme(prev, next) ? prev : next));
+    };
+    read();
+    if (!el || typeof MutationObserver === "undefined") return;
+    const observer = new MutationObserver(read);
+    for (let node: Element | null = el; node; node = node.parentElement) {
+      observer.observe(node, { attributes: true, attributeFilter: ["style", "class"] });
+    }
+    return () => observer.disconnect();
+  }, [ref, name]);
+  return theme;
+}
+
+function sameTheme(a: Theme, b: Theme): boolean {
+  return (Object.keys(a) as (keyof Theme)[]).every((key) => a[key] === b[key]);
+}
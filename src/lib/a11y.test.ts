@@ -0,0 +1,18 @@
+import { describeSchedule, nodeAriaLabel } from './a11y'
+import type { NodeModel } from './types'
+
+const lunch: NodeModel = { id: 'lunch', time: 13 * 3600, label: 'Lunch', icon: 'utensils', color: '#10b981' }
+const work: NodeModel = { id: 'work', time: 9 * 3600, end: 17 * 3600, label: 'Work', icon: 'briefcase', color: '#3b82f6' }
+
+describe('Accessible labels', () => {
+  it('announces label and time', () => {
+    expect(nodeAriaLabel(lunch)).toBe('Lunch, 13:00')
+    expect(nodeAriaLabel(work)).toBe('Work, 09:00 to 17:00')
+    expect(nodeAriaLabel({ ...lunch, time: 86400 + 13 * 3600 }, 7, '2026-10-19')).toBe('Lunch, Tue 20 13:00')
+  })
+
+  it('summarises the schedule chronologically', () => {
+    expect(describeSchedule([lunch, work])).toBe('2 activities: Work, 09:00 to 17:00; Lunch, 13:00.')
+    expect(describeSchedule([])).toBe('No activities scheduled.')
+  })
+})
@@ -0,0 +1,21 @@
+import type { NodeModel } from "./types";
+import { formatTime } from "./time";
+import { hasSpan } from "./spans";
+
+/** Spoken name of a node: "Lunch, 13:00" or "Work, 09:00 to 17:00". */
+export function nodeAriaLabel(n: NodeModel, days = 1, startDate?: string | null): string {
+  const start = formatTime(n.time, days, startDate);
+  return hasSpan(n)
+    ? `${n.label}, ${start} to ${formatTime(n.end, days, startDate)}`
+    : `${n.label}, ${start}`;
+}
+
+/** Plain-text schedule for assistive tech, in chronological order. */
+export function describeSchedule(nodes: NodeModel[], days = 1, startDate?: string | null): string {
+  if (!nodes.length) return "No activities scheduled.";
+  const items = [...nodes]
+    .sort((a, b) => a.time - b.time)
+    .map(n => nodeAriaLabel(n, days, startDate));
+  const count = `${nodes.length} ${nodes.length === 1 ? "activity" : "activities"}`;
+  return `${count}: ${items.join("; ")}.`;
+}
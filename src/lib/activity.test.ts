@@ -0,0 +1,90 @@
+import { stretchPaint, stretchesByControl, stretchesByTime } from './activity'
+import { buildParamLUT, pointAtTime, segmentsBetween } from './geometry/ParamMap'
+import { cubicPoint } from './geometry/Bezier'
+import { DARK_THEME, LIGHT_THEME } from './theme'
+import type { CurveState, NodeModel } from './types'
+
+const node = (id: string, time: number, color: string): NodeModel =>
+  ({ id, time, label: id, icon: '', color })
+
+const curve: CurveState = {
+  controls: [{ x: 0, y: 200 }, { x: 150, y: 80 }, { x: 300, y: 320 }, { x: 450, y: 120 }, { x: 600, y: 200 }],
+  tension: 0.5,
+}
+
+describe('stretchesByTime', () => {
+  const lut = buildParamLUT(curve)
+  const nodes = [
+    node('lunch', 13 * 3600, '#10b981'),
+    node('wake', 6 * 3600, '#f59e0b'),
+    node('work', 9 * 3600, '#3b82f6'),
+    node('sleep', 22 * 3600, '#8b5cf6'),
+  ]
+
+  it('runs each node to the next in time, the last to the end of the routine', () => {
+    const stretches = stretchesByTime(lut, nodes)
+    expect(stretches.map(s => [s.node.id, s.next?.id ?? null])).toEqual([
+      ['wake', 'work'], ['work', 'lunch'], ['lunch', 'sleep'], ['sleep', null],
+    ])
+    for (const s of stretches) {
+      const at = pointAtTime(lut, s.node.time)
+      expect(s.segments[0].p0.x).toBeCloseTo(at.x, 6)
+      expect(s.segments[0].p0.y).toBeCloseTo(at.y, 6)
+    }
+    const last = stretches[3].segments
+    expect(last[last.length - 1].p3).toEqual(lut.segments[lut.segments.length - 1].p3)
+  })
+
+  it('tiles the path without seams', () => {
+    const stretches = stretchesByTime(lut, nodes)
+    for (let i = 1; i < stretches.length; i++) {
+      const prev = stretches[i - 1].segments
+      expect(stretches[i].segments[0].p0).toEqual(prev[prev.length - 1].p3)
+    }
+    // each piece is the exact sub-curve between its two times
+    for (const s of stretches) {
+      const exact = segmentsBetween(lut, s.node.time, s.next?.time ?? 86400)
+      expect(s.segments).toHaveLength(exact.length)
+      s.segments.forEach((seg, k) => {
+        for (const t of [0, 0.25, 0.5, 0.75, 1]) {
+          const p = cubicPoint(seg, t), q = cubicPoint(exact[k], t)
+          expect(Math.hypot(p.x - q.x, p.y - q.y)).toBeLessThan(1e-9)
+        }
+      })
+    }
+  })
+
+  it('skips a node that shares its time with the next', () => {
+    const stretches = stretchesByTime(lut, [node('a', 3600, '#000000'), node('b', 7200, '#ffffff'), node('c', 7200, '#ff0000')])
+    expect(stretches.map(s => s.node.id)).toEqual(['a', 'c'])
+  })
+})
+
+describe('stretchesByControl', () => {
+  it('gives segment i to node i when the path runs through the nodes', () => {
+    const lut = buildParamLUT(curve)
+    const nodes = curve.controls.map((_, i) => node(`n${i}`, i * 3600, '#000000'))
+    const stretches = stretchesByControl(lut.segments, nodes)
+    expect(stretches).toHaveLength(4)
+    expect(stretches[2]).toEqual({ node: nodes[2], next: nodes[3], segments: [lut.segments[2]] })
+  })
+})
+
+describe('stretchPaint', () => {
+  const seg = { p0: { x: 0, y: 0 }, p1: { x: 10, y: 0 }, p2: { x: 20, y: 0 }, p3: { x: 30, y: 0 } }
+  const stretch = { node: node('a', 0, '#f59e0b'), next: node('b', 3600, '#3b82f6'), segments: [seg] }
+
+  it('paints flat in the node colour, or blends into the next node along the stretch', () => {
+    expect(stretchPaint(stretch, 'flat', LIGHT_THEME)).toEqual({ kind: 'flat', color: '#f59e0b' })
+    expect(stretchPaint(stretch, 'gradient', LIGHT_THEME)).toEqual({
+      kind: 'gradient', from: '#f59e0b', to: '#3b82f6', start: { x: 0, y: 0 }, end: { x: 30, y: 0 },
+    })
+  })
+
+  it('stays flat with nothing to blend into', () => {
+    expect(stretchPaint({ ...stretch, next: null }, 'gradient', LIGHT_THEME).kind).toBe('flat')
+    expect(stretchPaint({ ...stretch, next: node('b', 3600, '#f59e0b') }, 'gradient', LIGHT_THEME).kind).toBe('flat')
+    // tokens the theme can't vouch for take its node colour
+    expect(stretchPaint({ ...stretch, node: node('a', 0, 'brand') }, 'flat', DARK_THEME)).toEqual({ kind: 'flat', color: DARK_THEME.node })
+  })
+})
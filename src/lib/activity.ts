@@ -0,0 +1,52 @@
+import type { Cubic, LUT, NodeModel, PathColoring, Theme, TimeSec, Vec2 } from "./types";
+import { segmentsBetween, timeSpan } from "./geometry/ParamMap";
+import { nodeFill } from "./theme";
+
+/** The path one activity covers: from its node to the next (the last runs to the routine's end). */
+export type ActivityStretch = {
+  node: NodeModel;
+  next: NodeModel | null;
+  segments: Cubic[];             // exact sub-path; consecutive stretches meet end to start
+};
+
+/** A stretch's stroke: one colour, or a blend from `from` at `start` to `to` at `end`. */
+export type StretchPaint =
+  | { kind: "flat"; color: string }
+  | { kind: "gradient"; from: string; to: string; start: Vec2; end: Vec2 };
+
+/**
+ * Stretches for nodes drawn at their times on `lut`, split at the exact cubic
+ * parameters of each node's time. Neighbours share the split point, so the
+ * stretches tile the path without seams or overlaps.
+ */
+export function stretchesByTime(lut: LUT, nodes: NodeModel[]): ActivityStretch[] {
+  const sorted = [...nodes].sort((a, b) => a.time - b.time);
+  const end: TimeSec = timeSpan(lut);
+  const out: ActivityStretch[] = [];
+  sorted.forEach((node, i) => {
+    const next = sorted[i + 1] ?? null;
+    const segments = segmentsBetween(lut, node.time, next ? next.time : end);
+    if (!segments.length) return;
+    // both sides split at the same parameter; share the point itself so rounding can't open a gap
+    const prev = out[out.length - 1];
+    if (prev) segments[0] = { ...segments[0], p0: prev.segments[prev.segments.length - 1].p3 };
+    out.push({ node, next, segments });
+  });
+  return out;
+}
+
+/** Stretches for a path drawn through the nodes themselves: segment i joins node i to node i + 1. */
+export function stretchesByControl(segments: Cubic[], nodes: NodeModel[]): ActivityStretch[] {
+  return segments.slice(0, Math.max(0, nodes.length - 1)).map((seg, i) => ({ node: nodes[i], next: nodes[i + 1], segments: [seg] }));
+}
+
+/** How to stroke `stretch`: its node's colour, or blended into the next node's. */
+export function stretchPaint(stretch: ActivityStretch, coloring: Exclude<PathColoring, "none">, theme: Theme): StretchPaint {
+  const color = nodeFill(stretch.node.color, theme);
+  const start = stretch.segments[0].p0;
+  const end = stretch.segments[stretch.segments.length - 1].p3;
+  // a gradient needs somewhere to run: a closed stretch has no direction
+  if (coloring === "flat" || !stretch.next || Math.hypot(end.x - start.x, end.y - start.y) < 1e-6) return { kind: "flat", color };
+  const to = nodeFill(stretch.next.color, theme);
+  return to === color ? { kind: "flat", color } : { kind: "gradient", from: color, to, start, end };
+}
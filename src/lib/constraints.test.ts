@@ -0,0 +1,67 @@
+import { allowedRange, constrainSpan, constrainTime, limitLabel } from './constraints'
+import type { ConstraintSettings, NodeModel } from './types'
+
+const HM = (h: number, m = 0) => h * 3600 + m * 60
+const node = (id: string, time: number, extra: Partial<NodeModel> = {}): NodeModel =>
+  ({ id, time, label: id[0].toUpperCase() + id.slice(1), icon: '', color: '#000', ...extra })
+const ordered: ConstraintSettings = { keepOrder: true, minGapSec: 900 }
+const nodes = [node('wake', HM(6)), node('work', HM(9), { end: HM(12) }), node('lunch', HM(13)), node('sleep', HM(22))]
+
+describe('Constraints', () => {
+  it('stops a drag at its neighbours plus the minimum gap', () => {
+    expect(constrainTime(nodes, 'lunch', HM(8), ordered)).toMatchObject({
+      time: HM(9, 15), limit: { kind: 'neighbour', side: 'min', nodeId: 'work' },
+    })
+    expect(constrainTime(nodes, 'lunch', HM(23), ordered)).toMatchObject({
+      time: HM(21, 45), limit: { kind: 'neighbour', side: 'max', nodeId: 'sleep' },
+    })
+    expect(constrainTime(nodes, 'lunch', HM(14), ordered)).toEqual({ time: HM(14), limit: null })
+  })
+
+  it('lets nodes pass each other when order is not kept', () => {
+    expect(constrainTime(nodes, 'lunch', HM(8), { keepOrder: false, minGapSec: 900 }).time).toBe(HM(8))
+  })
+
+  it('applies hard windows, keeping a span inside its latest time', () => {
+    const windowed = nodes.map(n => n.id === 'work' ? { ...n, earliest: HM(8), latest: HM(12, 30) } : n)
+    const early = constrainTime(windowed, 'work', HM(7), { keepOrder: false, minGapSec: 0 })
+    expect(early).toMatchObject({ time: HM(8), limit: { kind: 'window', side: 'min' } })
+    const late = constrainTime(windowed, 'work', HM(11), { keepOrder: false, minGapSec: 0 })
+    expect(late.time).toBe(HM(9, 30)) // three-hour span must end by 12:30
+    expect(limitLabel(late.limit!, windowed)).toBe('Not after 12:30')
+  })
+
+  it('never leaves the routine', () => {
+    expect(constrainTime(nodes, 'sleep', HM(30), undefined)).toMatchObject({ time: HM(24), limit: { kind: 'range' } })
+    expect(constrainTime(nodes, 'work', HM(23), undefined).time).toBe(HM(21))
+  })
+
+  it('holds an already-invalid schedule where it is', () => {
+    const crowded = [node('a', HM(9)), node('b', HM(9, 5)), node('c', HM(9, 10))]
+    const { min, max } = allowedRange(crowded, 'b', ordered)
+    expect([min.time, max.time]).toEqual([HM(9, 5), HM(9, 5)])
+  })
+
+  it('constrains span edges separately', () => {
+    const start = constrainSpan(nodes, 'work', { time: HM(5), end: HM(12) }, 'start', ordered)
+    expect(start).toMatchObject({ time: HM(6, 15), end: HM(12), limit: { nodeId: 'wake' } })
+    const windowed = nodes.map(n => n.id === 'work' ? { ...n, latest: HM(12, 30) } : n)
+    expect(constrainSpan(windowed, 'work', { time: HM(9), end: HM(14) }, 'end', ordered).end).toBe(HM(12, 30))
+  })
+
+  it('keeps a span open when a window overlaps its far edge', () => {
+    const late = nodes.map(n => n.id === 'work' ? { ...n, earliest: HM(11, 58) } : n)
+    expect(constrainSpan(late, 'work', { time: HM(9), end: HM(12) }, 'start', ordered)).toMatchObject({
+      time: HM(11, 55), end: HM(12), limit: { kind: 'window', side: 'min' },
+    })
+    const early = nodes.map(n => n.id === 'work' ? { ...n, latest: HM(9, 2) } : n)
+    expect(constrainSpan(early, 'work', { time: HM(9), end: HM(12) }, 'end', ordered)).toMatchObject({
+      time: HM(9), end: HM(9, 5), limit: { kind: 'window', side: 'max' },
+    })
+  })
+
+  it('explains neighbour limits by name', () => {
+    const { limit } = constrainTime(nodes, 'lunch', HM(8), ordered)
+    expect(limitLabel(limit!, nodes)).toBe('After Work')
+  })
+})
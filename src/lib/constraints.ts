@@ -0,0 +1,114 @@
+import type { ConstraintSettings, NodeId, NodeModel, TimeSec } from "./types";
+import { MIN_SPAN_SEC, hasSpan } from "./spans";
+import { isAnchor } from "./roles";
+import { DAY_SEC, formatTime } from "./time";
+
+export const DEFAULT_CONSTRAINTS: ConstraintSettings = {
+  keepOrder: true,
+  minGapSec: 0,
+};
+
+/** What stopped a drag: the node's own window, a neighbour, or the ends of the routine. */
+export type ConstraintLimit = {
+  kind: "window" | "neighbour" | "range";
+  side: "min" | "max";
+  time: TimeSec;        // the start (or span end) the drag is held at
+  bound: TimeSec;       // the instant that holds it: window edge, neighbour time or routine end
+  nodeId?: NodeId;      // the neighbour, for kind "neighbour"
+};
+
+export type ConstrainResult = { time: TimeSec; limit: ConstraintLimit | null };
+
+type Bound = { time: TimeSec; limit: ConstraintLimit };
+type LimitSource = Pick<ConstraintLimit, "kind" | "bound" | "nodeId">;
+
+/**
+ * Start times node `id` may take with the rest of the schedule held still.
+ * Neighbours are taken in chronological order (ties keep list order); if the
+ * schedule already breaks a rule the range collapses onto the current time.
+ */
+export function allowedRange(nodes: NodeModel[], id: NodeId, constraints: ConstraintSettings | undefined, span = DAY_SEC): { min: Bound; max: Bound } {
+  const n = nodes.find((x) => x.id === id);
+  const dur = n && hasSpan(n) ? n.end - n.time : 0;
+  let min: Bound = { time: 0, limit: { kind: "range", side: "min", time: 0, bound: 0 } };
+  let max: Bound = { time: span - dur, limit: { kind: "range", side: "max", time: span - dur, bound: span } };
+  if (!n) return { min, max };
+
+  const raise = (time: TimeSec, limit: LimitSource) => {
+    if (time > min.time) min = { time, limit: { ...limit, side: "min", time } };
+  };
+  const lower = (time: TimeSec, limit: LimitSource) => {
+    if (time < max.time) max = { time, limit: { ...limit, side: "max", time } };
+  };
+
+  if (n.earliest != null) raise(n.earliest, { kind: "window", bound: n.earliest });
+  if (n.latest != null) lower(n.latest - dur, { kind: "window", bound: n.latest });
+
+  // anchors bound the routine whether or not order is kept
+  for (const o of nodes) {
+    if (o.id === id || !isAnchor(o) || isAnchor(n)) continue;
+    if (o.role === "start") raise(o.time, { kind: "neighbour", bound: o.time, nodeId: o.id });
+    else lower(o.time - dur, { kind: "neighbour", bound: o.time, nodeId: o.id });
+  }
+
+  if (constraints?.keepOrder) {
+    const gap = Math.max(0, constraints.minGapSec);
+    const order = nodes.map((x, i) => ({ x, i })).sort((a, b) => a.x.time - b.x.time || a.i - b.i);
+    const k = order.findIndex((o) => o.x.id === id);
+    const prev = order[k - 1]?.x;
+    const next = order[k + 1]?.x;
+    if (prev) raise(prev.time + gap, { kind: "neighbour", bound: prev.time, nodeId: prev.id });
+    if (next) lower(next.time - gap, { kind: "neighbour", bound: next.time, nodeId: next.id });
+  }
+
+  if (min.time > max.time) {
+    // already infeasible: don't let the drag make it worse in either direction
+    const held = Math.min(Math.max(n.time, 0), span - dur);
+    min = { time: held, limit: { ...min.limit, time: held } };
+    max = { time: held, limit: { ...max.limit, time: held } };
+  }
+  return { min, max };
+}
+
+/** Clamp a proposed start time; `limit` is set when the drag is being held back. */
+export function constrainTime(nodes: NodeModel[], id: NodeId, time: TimeSec, constraints: ConstraintSettings | undefined, span = DAY_SEC): ConstrainResult {
+  const { min, max } = allowedRange(nodes, id, constraints, span);
+  if (time < min.time) return { time: min.time, limit: min.limit };
+  if (time > max.time) return { time: max.time, limit: max.limit };
+  return { time, limit: null };
+}
+
+/**
+ * Clamp a span edge drag: the start obeys the range, the end only the window
+ * and the routine. Either way the span keeps at least MIN_SPAN_SEC, even where
+ * a window leaves no room for it.
+ */
+export function constrainSpan(
+  nodes: NodeModel[], id: NodeId, next: { time: TimeSec; end: TimeSec }, edge: "start" | "end",
+  constraints: ConstraintSettings | undefined, span = DAY_SEC
+): { time: TimeSec; end: TimeSec; limit: ConstraintLimit | null } {
+  const n = nodes.find((x) => x.id === id);
+  if (edge === "start") {
+    // the end stays put, so range the start as an instant
+    const r = constrainTime(nodes.map((x) => (x.id === id ? { ...x, end: undefined } : x)), id, next.time, constraints, span);
+    return { time: Math.min(r.time, next.end - MIN_SPAN_SEC), end: next.end, limit: r.limit };
+  }
+  const cap = Math.min(span, n?.latest ?? span);
+  if (next.end > cap) {
+    const end = Math.max(cap, next.time + MIN_SPAN_SEC);
+    return { time: next.time, end, limit: { kind: cap < span ? "window" : "range", side: "max", time: end, bound: cap } };
+  }
+  return { time: next.time, end: Math.max(next.end, next.time + MIN_SPAN_SEC), limit: null };
+}
+
+/** Short feedback for a held drag: "After Wake", "Not before 07:00". */
+export function limitLabel(limit: ConstraintLimit, nodes: NodeModel[], days = 1, startDate?: string | null): string {
+  if (limit.kind === "neighbour") {
+    const other = nodes.find((x) => x.id === limit.nodeId)?.label ?? "neighbour";
+    return limit.side === "min" ? `After ${other}` : `Before ${other}`;
+  }
+  if (limit.kind === "window") {
+    return `${limit.side === "min" ? "Not before" : "Not after"} ${formatTime(limit.bound, days, startDate)}`;
+  }
+  return limit.side === "min" ? "Start of routine" : "End of routine";
+}
@@ -0,0 +1,67 @@
+import { buildParamLUT, fractionToTime, frameAtElapsed, frameAtTime, timeSpan, timeToFraction } from './geometry/ParamMap'
+import {
+  createDayModel, dayLength, elapsedToWall, formatInZone, nowElapsed, wallExists, wallToElapsed,
+} from './dayModel'
+
+const H = 3600
+const spring = createDayModel('2026-03-29', 'Europe/Lisbon') // 01:00 → 02:00
+const fall = createDayModel('2026-10-25', 'Europe/Lisbon')   // 02:00 → 01:00
+
+describe('day model', () => {
+  it('gives DST days 23 and 25 hours', () => {
+    expect(spring.span).toBe(23 * H)
+    expect(fall.span).toBe(25 * H)
+    expect(createDayModel('2026-06-01', 'Europe/Lisbon').span).toBe(24 * H)
+    expect(createDayModel('2026-10-24', 'Europe/Lisbon', 3).dayStarts).toEqual([0, 24 * H, 49 * H, 73 * H])
+    expect(dayLength(createDayModel('2026-10-24', 'Europe/Lisbon', 3), 1)).toBe(25 * H)
+  })
+
+  it('moves the skipped hour onto the jump', () => {
+    expect(wallToElapsed(spring, 0.5 * H)).toBe(0.5 * H)
+    expect(wallToElapsed(spring, 1.5 * H)).toBe(H)
+    expect(wallToElapsed(spring, 3 * H)).toBe(2 * H)
+    expect(wallExists(spring, 1.5 * H)).toBe(false)
+    expect(wallExists(spring, 2 * H)).toBe(true)
+    expect(wallToElapsed(spring, 86400)).toBe(spring.span)
+  })
+
+  it('takes the first pass through a repeated hour', () => {
+    expect(wallToElapsed(fall, 1.5 * H)).toBe(1.5 * H)
+    expect(wallToElapsed(fall, 3 * H)).toBe(4 * H)
+    expect(elapsedToWall(fall, 1.5 * H)).toBe(1.5 * H)
+    expect(elapsedToWall(fall, 2.5 * H)).toBe(1.5 * H)
+    expect(elapsedToWall(fall, 4 * H)).toBe(3 * H)
+  })
+
+  it('reads now in real elapsed time', () => {
+    // 01:30 WET, the second time the clock shows 01:30
+    expect(nowElapsed(fall, new Date('2026-10-25T01:30:00Z'))).toBe(2.5 * H)
+    expect(nowElapsed(fall, new Date('2026-10-26T01:00:00Z'))).toBeNull()
+    expect(nowElapsed(spring, new Date('2026-03-28T23:59:00Z'))).toBeNull()
+  })
+
+  it('shows the same moment in a second zone', () => {
+    expect(formatInZone(spring, 13 * H, 'America/New_York')).toBe('08:00')
+    // Lisbon is back on WET while New York keeps EDT for another week
+    expect(formatInZone(fall, 13 * H, 'America/New_York')).toBe('09:00')
+  })
+})
+
+describe('ParamMap with a day model', () => {
+  const curve = { controls: [{ x: 0, y: 0 }, { x: 100, y: 50 }, { x: 200, y: 0 }, { x: 300, y: 50 }], tension: 0.5 }
+
+  it('lays out elapsed time and round-trips wall times', () => {
+    const lut = buildParamLUT(curve, { day: fall })
+    expect(timeSpan(lut)).toBe(86400)
+    expect(timeToFraction(lut, 12.5 * H)).toBeCloseTo(13.5 / 25, 9)
+    for (const t of [0, 0.5 * H, 6 * H, 13 * H, 86400]) expect(fractionToTime(lut, timeToFraction(lut, t))).toBeCloseTo(t, 6)
+  })
+
+  it('keeps the now marker moving through the repeated hour', () => {
+    const lut = buildParamLUT(curve, { day: fall })
+    const first = frameAtElapsed(lut, 1.5 * H).p
+    const second = frameAtElapsed(lut, 2.5 * H).p
+    expect(second.x).toBeGreaterThan(first.x)
+    expect(frameAtTime(lut, 1.5 * H).p).toEqual(first)
+  })
+})
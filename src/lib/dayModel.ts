@@ -0,0 +1,133 @@
+import type { DayModel, TimeSec } from "./types";
+import { DAY_SEC } from "./time";
+
+/**
+ * Days as they happen in an IANA time zone. Node times stay wall-clock
+ * (day·86400 + seconds on the clock); the curve runs on elapsed seconds, so a
+ * 23-hour spring-forward day is an hour shorter than a 25-hour fall-back day.
+ * Wall times in a skipped hour land on the jump; repeated ones take their first occurrence.
+ */
+export function createDayModel(date: string, tz: string, days = 1): DayModel {
+  const wall0 = isoToUTC(date); // day 0 midnight, as a "UTC-wall" timestamp
+  const start = localToInstant(wall0, tz);
+  const off0 = zoneOffset(start, tz);
+  const end = localToInstant(wall0 + days * DAY_SEC * 1000, tz);
+
+  // find every offset change in range: hourly probe, then bisect to the second
+  const shifts: DayModel["shifts"] = [];
+  let prevT = start;
+  let prevOff = off0;
+  for (let t = start + 3600_000; prevT < end; t = Math.min(end, t + 3600_000)) {
+    const off = zoneOffset(t, tz);
+    if (off !== prevOff) {
+      let lo = prevT, hi = t;
+      while (hi - lo > 1000) {
+        const mid = lo + Math.floor((hi - lo) / 2000) * 1000;
+        if (zoneOffset(mid, tz) === prevOff) lo = mid; else hi = mid;
+      }
+      shifts.push({ elapsed: (hi - start) / 1000, delta: (off - off0) / 1000 });
+      prevOff = off;
+    }
+    prevT = t;
+  }
+  const span = (end - start) / 1000;
+  const model: DayModel = { tz, date, days, start, span, shifts, dayStarts: [] };
+  for (let i = 0; i <= days; i++) model.dayStarts.push(wallToElapsed(model, i * DAY_SEC));
+  return model;
+}
+
+/** Elapsed seconds since day-0 midnight for a wall-clock TimeSec. */
+export function wallToElapsed(m: DayModel, wall: TimeSec): number {
+  if (wall <= 0) return 0;
+  let segStart = 0;
+  let delta = 0;
+  for (const s of m.shifts) {
+    const e = wall - delta;
+    if (e >= segStart && e < s.elapsed) return e; // first occurrence wins in a repeated hour
+    if (wall - s.delta < s.elapsed) return s.elapsed; // skipped hour: lands on the jump
+    segStart = s.elapsed;
+    delta = s.delta;
+  }
+  return Math.min(m.span, Math.max(0, wall - delta));
+}
+
+/** Wall-clock TimeSec shown at `elapsed` seconds after day-0 midnight. */
+export function elapsedToWall(m: DayModel, elapsed: number): TimeSec {
+  let delta = 0;
+  for (const s of m.shifts) {
+    if (elapsed < s.elapsed) break;
+    delta = s.delta;
+  }
+  return elapsed + delta;
+}
+
+/** Hours on the clock for day `i`: 23, 24 or 25 (in seconds). */
+export function dayLength(m: DayModel, i: number): number {
+  return m.dayStarts[i + 1] - m.dayStarts[i];
+}
+
+/** A wall time that actually shows on the clock (not inside a skipped hour). */
+export function wallExists(m: DayModel, wall: TimeSec): boolean {
+  return elapsedToWall(m, wallToElapsed(m, wall)) === wall;
+}
+
+/** Elapsed seconds into the routine at `now`; null outside it. */
+export function nowElapsed(m: DayModel, now = new Date()): number | null {
+  const e = (now.getTime() - m.start) / 1000;
+  return e < 0 || e >= m.span ? null : e;
+}
+
+/** "HH:MM" on the clock in another zone at the moment the routine shows `wall`. */
+export function formatInZone(m: DayModel, wall: TimeSec, tz: string): string {
+  const instant = m.start + wallToElapsed(m, wall) * 1000;
+  return new Intl.DateTimeFormat("en-GB", { timeZone: tz, hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).format(new Date(instant));
+}
+
+/** Today's ISO date in `tz`. */
+export function todayIn(tz: string, now = new Date()): string {
+  const local = new Date(now.getTime() + zoneOffset(now.getTime(), tz));
+  return local.toISOString().slice(0, 10);
+}
+
+/** The zone the device clock runs in. */
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
+}
+
+/** Short zone name for labels: "New York" from "America/New_York". */
+export function zoneLabel(tz: string): string {
+  return tz.split("/").pop()!.replace(/_/g, " ");
+}
+
+/** Offset (ms) of `tz` from UTC at the given instant, via Intl. */
+export function zoneOffset(instant: number, tz: string): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: tz, hourCycle: "h23", year: "numeric", month: "2-digit", day: "2-digit",
+    hour: "2-digit", minute: "2-digit", second: "2-digit",
+  }).formatToParts(new Date(instant));
+  const get = (t: string) => +(parts.find((x) => x.type === t)?.value ?? 0);
+  const asUTC = Date.UTC(get("year"), get("month") - 1, get("day"), get("hour"), get("minute"), get("second"));
+  return asUTC - Math.floor(instant / 1000) * 1000;
+}
+
+/** Instant at which the clock in `tz` shows `wall` (a "UTC-wall" timestamp); just past the jump for skipped times. */
+export function localToInstant(wall: number, tz: string): number {
+  // the offset depends on the instant we're solving for; one refinement settles DST edges
+  const guess = wall - zoneOffset(wall, tz);
+  const instant = wall - zoneOffset(guess, tz);
+  return instant + zoneOffset(instant, tz) === wall ? instant : Math.max(guess, instant);
+}
+
+export function isTimeZone(tz: unknown): tz is string {
+  if (typeof tz !== "string" || !tz) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: tz });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isoToUTC(iso: string): number {
+  return Date.UTC(+iso.slice(0, 4), +iso.slice(5, 7) - 1, +iso.slice(8, 10));
+}
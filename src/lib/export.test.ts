@@ -0,0 +1,87 @@
+// @vitest-environment jsdom
+import { exportSVG, isHidden, rasterSize } from './export'
+
+function timeline(): SVGSVGElement {
+  document.body.innerHTML = `
+    <style>@font-face { font-family: "Inter"; src: url(inter.woff2) } svg { font-family: Inter, sans-serif }</style>
+    <style>.stroke-gray { stroke: rgb(156, 163, 175) } .fill-emerald { fill: rgb(16, 185, 129) }</style>
+    <svg viewBox="0 0 400 800" data-timeline="">
+      <path d="M0 0L10 10" class="stroke-gray" />
+      <g data-export="now"><circle r="4" class="fill-emerald" /></g>
+      <g data-export="debug"><text>DRAG</text></g>
+      <g data-export="coachmark"><text>hint</text></g>
+      <circle r="9" tabindex="0" data-export="transient" />
+    </svg>`
+  return document.querySelector('svg')!
+}
+
+describe('Timeline export', () => {
+  // no network in tests: font files are served by the stubs below, or not at all
+  beforeEach(() => { vi.stubGlobal('fetch', async () => { throw new TypeError('offline') }) })
+  afterEach(() => { vi.unstubAllGlobals() })
+
+  it('inlines class styles and drops classes', async () => {
+    const out = await exportSVG(timeline())
+    expect(out).not.toContain('class=')
+    expect(out).toMatch(/<path[^>]*style="[^"]*stroke:\s*rgb\(156, 163, 175\)/)
+    expect(out).toContain('xmlns="http://www.w3.org/2000/svg"')
+    expect(out).toContain('width="400"')
+  })
+
+  it('hides debug, coachmark and transient layers by default, and now on request', async () => {
+    const out = await exportSVG(timeline())
+    expect(out).not.toContain('DRAG')
+    expect(out).not.toContain('hint')
+    expect(out).not.toContain('r="9"')
+    expect(out).toContain('r="4"')
+    expect(await exportSVG(timeline(), { hideNow: true })).not.toContain('r="4"')
+    expect(await exportSVG(timeline(), { hideDebug: false })).toContain('DRAG')
+  })
+
+  it('embeds the font faces the timeline uses, font files included', async () => {
+    const fetched: string[] = []
+    vi.stubGlobal('fetch', async (url: string) => {
+      fetched.push(url)
+      return new Response(new Uint8Array([119, 79, 70, 50]), { headers: { 'content-type': 'font/woff2' } })
+    })
+    const out = await exportSVG(timeline())
+    expect(fetched).toEqual([new URL('inter.woff2', document.baseURI).href])
+    expect(out).toMatch(/<style>@font-face[^<]*url\("data:font\/woff2;base64,d09GMg=="\)/)
+    // nothing left to load from outside
+    expect(out).not.toMatch(/url\((?!["']?data:)/)
+  })
+
+  it('leaves out a font face whose files cannot be fetched', async () => {
+    const out = await exportSVG(timeline())
+    expect(out).not.toContain('@font-face')
+    expect(out).not.toContain('url(')
+  })
+
+  it('embeds image icons, or draws the fallback mark when one cannot be fetched', async () => {
+    const svg = timeline()
+    svg.insertAdjacentHTML('beforeend', '<image href="icons/run.png" x="10" y="20" width="16" height="16" style="color: rgb(15, 23, 42)" />')
+    vi.stubGlobal('fetch', async () => new Response(new Uint8Array([137, 80, 78, 71]), { headers: { 'content-type': 'image/png' } }))
+    expect(await exportSVG(svg)).toContain('href="data:image/png;base64,iVBORw=="')
+
+    vi.stubGlobal('fetch', async () => new Response(null, { status: 404 }))
+    const out = await exportSVG(svg)
+    expect(out).not.toContain('<image')
+    expect(out).toMatch(/<svg x="10" y="20" width="16" height="16"[^>]*stroke="rgb\(15, 23, 42\)"[^>]*><path d="M12 7/)
+  })
+
+  it('keeps nested icons unclipped', async () => {
+    const svg = timeline()
+    svg.insertAdjacentHTML('beforeend', '<svg viewBox="0 0 24 24" style="overflow: visible"><path d="M0 0" /></svg>')
+    expect(await exportSVG(svg)).toMatch(/<svg viewBox="0 0 24 24" style="[^"]*overflow:\s*visible/)
+  })
+
+  it('adds an optional background', async () => {
+    expect(await exportSVG(timeline(), { background: '#fafafa' })).toContain('fill="#fafafa"')
+  })
+
+  it('sizes PNGs by scale within the canvas limit', () => {
+    expect(rasterSize({ width: 400, height: 800 }, 2)).toEqual({ width: 800, height: 1600 })
+    expect(rasterSize({ width: 400, height: 800 }, 40).height).toBe(16384)
+    expect(isHidden('transient', { hideCoachmark: false })).toBe(true)
+  })
+})
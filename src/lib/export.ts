@@ -0,0 +1,231 @@
+import { FALLBACK_ICON } from "./icons";
+
+/**
+ * Standalone export of a rendered timeline. The live <svg> leans on CSS classes
+ * and inherited styles, so each element's computed presentation is copied inline
+ * before the markup leaves the page. Renderers tag optional layers with
+ * `data-export="now" | "debug" | "coachmark"`; "transient" layers (focus rings,
+ * snap and constraint feedback) are always left out. Fonts and image icons are
+ * embedded, so the file loads nothing from outside.
+ */
+export type ExportOptions = {
+  hideNow?: boolean;           // drop the live "now" marker (default false)
+  hideDebug?: boolean;         // drop the debug overlay (default true)
+  hideCoachmark?: boolean;     // drop first-run hints and instructions (default true)
+  background?: string | null;  // fill behind the timeline; null keeps it transparent
+};
+
+export type PngOptions = ExportOptions & {
+  scale?: number;              // output pixels per viewBox unit (default 2)
+};
+
+/** Presentation properties copied from computed style onto every exported element. */
+export const EXPORT_PROPS = [
+  "fill", "fill-opacity", "stroke", "stroke-width", "stroke-opacity", "stroke-dasharray",
+  "stroke-linecap", "stroke-linejoin", "opacity", "visibility", "display", "filter",
+  "font-family", "font-size", "font-weight", "font-style", "text-anchor", "dominant-baseline",
+  "overflow", // nested icon <svg>s draw past their box
+] as const;
+
+const MAX_CANVAS_PX = 16384; // common browser limit per side
+const SVG_NS = "http://www.w3.org/2000/svg";
+const XLINK_NS = "http://www.w3.org/1999/xlink";
+
+/**
+ * Standalone SVG markup. Async because font files and image icons are fetched
+ * and embedded: once rasterised through an <img>, an SVG can't load anything
+ * from outside.
+ */
+export async function exportSVG(svg: SVGSVGElement, opts: ExportOptions = {}): Promise<string> {
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  const src = [svg, ...Array.from(svg.querySelectorAll("*"))];
+  const dst = [clone, ...Array.from(clone.querySelectorAll("*"))];
+  const families = new Set<string>();
+  const images: { el: Element; ink: string }[] = [];
+  src.forEach((el, i) => {
+    const cs = getComputedStyle(el);
+    const decls = EXPORT_PROPS.map((p) => [p, cs.getPropertyValue(p)] as const);
+    const family = cs.getPropertyValue("font-family");
+    if (family) family.split(",").forEach((f) => families.add(unquote(f)));
+    const out = dst[i];
+    out.setAttribute("style", toStyleAttr(decls));
+    out.removeAttribute("class");
+    out.removeAttribute("tabindex");
+    if (out.localName === "image") images.push({ el: out, ink: cs.getPropertyValue("color") || "currentColor" });
+  });
+
+  for (const el of Array.from(clone.querySelectorAll("[data-export]"))) {
+    if (isHidden(el.getAttribute("data-export"), opts)) el.remove();
+  }
+
+  const { x, y, width, height } = viewBoxOf(svg);
+  clone.setAttribute("xmlns", SVG_NS);
+  clone.setAttribute("width", String(width));
+  clone.setAttribute("height", String(height));
+
+  await Promise.all(images.map(({ el, ink }) => inlineImage(el, ink)));
+  const fonts = await fontFaceCSS(families);
+  if (fonts) {
+    const style = document.createElementNS(SVG_NS, "style");
+    style.textContent = fonts;
+    clone.insertBefore(style, clone.firstChild);
+  }
+  if (opts.background) {
+    const bg = document.createElementNS(SVG_NS, "rect");
+    bg.setAttribute("x", String(x));
+    bg.setAttribute("y", String(y));
+    bg.setAttribute("width", String(width));
+    bg.setAttribute("height", String(height));
+    bg.setAttribute("fill", opts.background);
+    clone.insertBefore(bg, clone.querySelector("title, desc, style")?.nextSibling ?? clone.firstChild);
+  }
+  return new XMLSerializer().serializeToString(clone);
+}
+
+/** Rasterise the standalone SVG through a canvas. */
+export async function exportPNG(svg: SVGSVGElement, opts: PngOptions = {}): Promise<Blob> {
+  const markup = await exportSVG(svg, opts);
+  const { width, height } = rasterSize(viewBoxOf(svg), opts.scale ?? 2);
+  const url = URL.createObjectURL(new Blob([markup], { type: "image/svg+xml;charset=utf-8" }));
+  try {
+    const img = new Image();
+    await new Promise<void>((resolve, reject) => {
+      img.onload = () => resolve();
+      img.onerror = () => reject(new Error("export: SVG could not be decoded"));
+      img.src = url;
+    });
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("export: no 2D canvas context");
+    ctx.drawImage(img, 0, 0, width, height);
+    return await new Promise<Blob>((resolve, reject) =>
+      canvas.toBlob((b) => (b ? resolve(b) : reject(new Error("export: PNG encoding failed"))), "image/png"));
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Save a blob (or SVG string) under `filename` via a temporary link. */
+export function downloadExport(data: Blob | string, filename: string): void {
+  const blob = typeof data === "string" ? new Blob([data], { type: "image/svg+xml;charset=utf-8" }) : data;
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Canvas size for a viewBox at `scale`, shrunk to stay inside the browser's canvas limit. */
+export function rasterSize(box: { width: number; height: number }, scale: number): { width: number; height: number } {
+  const s = Math.max(0.1, scale);
+  const fit = Math.min(1, MAX_CANVAS_PX / Math.max(1, box.width * s, box.height * s));
+  return { width: Math.max(1, Math.round(box.width * s * fit)), height: Math.max(1, Math.round(box.height * s * fit)) };
+}
+
+/** The viewBox as written (the attribute, not `viewBox.baseVal`, so detached clones work too). */
+export function viewBoxOf(svg: SVGSVGElement): { x: number; y: number; width: number; height: number } {
+  const v = (svg.getAttribute("viewBox") ?? "").split(/[\s,]+/).map(Number);
+  if (v.length === 4 && v.every(Number.isFinite) && v[2] > 0 && v[3] > 0) return { x: v[0], y: v[1], width: v[2], height: v[3] };
+  const r = svg.getBoundingClientRect();
+  return { x: 0, y: 0, width: r.width || 300, height: r.height || 150 };
+}
+
+export function isHidden(layer: string | null, opts: ExportOptions): boolean {
+  switch (layer) {
+    case "now": return opts.hideNow ?? false;
+    case "debug": return opts.hideDebug ?? true;
+    case "coachmark": return opts.hideCoachmark ?? true;
+    case "transient": return true;
+    default: return false;
+  }
+}
+
+export function toStyleAttr(decls: ReadonlyArray<readonly [string, string]>): string {
+  return decls.filter(([, v]) => v !== "").map(([k, v]) => `${k}:${v}`).join(";");
+}
+
+/**
+ * @font-face rules for the families in use, where the stylesheet is readable
+ * (same origin), with their font files embedded. A face whose files can't be
+ * fetched is left out rather than pointing outside the document.
+ */
+async function fontFaceCSS(families: Set<string>): Promise<string> {
+  const faces: { css: string; base: string }[] = [];
+  for (const sheet of Array.from(document.styleSheets)) {
+    let rules: CSSRuleList;
+    try { rules = sheet.cssRules; } catch { continue; }
+    for (const rule of Array.from(rules)) {
+      const family = /^@font-face\b[^}]*font-family:\s*([^;}]+)/i.exec(rule.cssText)?.[1];
+      if (family && families.has(unquote(family))) faces.push({ css: rule.cssText, base: sheet.href ?? document.baseURI });
+    }
+  }
+  const inlined = await Promise.all(faces.map(({ css, base }) => inlineURLs(css, base)));
+  return inlined.filter((css): css is string => css !== null).join("\n");
+}
+
+/** `css` with every url(…) replaced by a data: URL of its contents; null when one can't be fetched. */
+async function inlineURLs(css: string, base: string): Promise<string | null> {
+  let out = css;
+  for (const [ref, , href] of Array.from(css.matchAll(/url\(\s*(["']?)([^"')]+)\1\s*\)/g))) {
+    if (/^data:/i.test(href)) continue;
+    const data = await toDataURL(href, base);
+    if (!data) return null;
+    out = out.replace(ref, `url("${data}")`);
+  }
+  return out;
+}
+
+/**
+ * Point an <image> icon at a data: URL of its file, or swap it for the
+ * fallback mark (stroked in `ink`) when the file can't be fetched.
+ */
+async function inlineImage(el: Element, ink: string): Promise<void> {
+  const href = el.getAttribute("href") ?? el.getAttributeNS(XLINK_NS, "href");
+  if (!href || /^data:/i.test(href)) return;
+  const data = await toDataURL(href, document.baseURI);
+  if (data) {
+    el.removeAttributeNS(XLINK_NS, "href");
+    el.setAttribute("href", data);
+    return;
+  }
+  const mark = document.createElementNS(SVG_NS, "svg");
+  for (const name of ["x", "y", "width", "height", "style", "aria-hidden"]) {
+    const value = el.getAttribute(name);
+    if (value !== null) mark.setAttribute(name, value);
+  }
+  const attrs = { viewBox: FALLBACK_ICON.viewBox ?? "0 0 24 24", fill: "none", stroke: ink, "stroke-width": "2",
+    "stroke-linecap": "round", "stroke-linejoin": "round", overflow: "visible" };
+  for (const [name, value] of Object.entries(attrs)) mark.setAttribute(name, value);
+  for (const d of FALLBACK_ICON.paths) {
+    const path = document.createElementNS(SVG_NS, "path");
+    path.setAttribute("d", d);
+    mark.appendChild(path);
+  }
+  el.replaceWith(mark);
+}
+
+/** The file at `href` as a data: URL; null when it can't be fetched. */
+async function toDataURL(href: string, base: string): Promise<string | null> {
+  try {
+    const res = await fetch(new URL(href, base).href);
+    if (!res.ok) return null;
+    const type = res.headers.get("content-type") ?? "application/octet-stream";
+    return `data:${type};base64,${toBase64(new Uint8Array(await res.arrayBuffer()))}`;
+  } catch {
+    return null;
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let bin = "";
+  const CHUNK = 0x8000; // keep apply() under argument-count limits
+  for (let i = 0; i < bytes.length; i += CHUNK) bin += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  return btoa(bin);
+}
+
+function unquote(s: string): string {
+  return s.trim().replace(/^["']|["']$/g, "");
+}
@@ -0,0 +1,67 @@
+import { arcLengthAt, paramAtLength } from './ArcLength'
+import { buildParamLUT, paramAtTime, pointAtTime, timeAtPoint, timeToFraction } from './ParamMap'
+import { buildTimeWarp } from './TimeWarp'
+import { cubicPoint } from './Bezier'
+import type { CurveState, Cubic } from '../types'
+
+// tight hairpins: where summed chords are least accurate
+const hairpin: CurveState = {
+  controls: [{ x: 0, y: 0 }, { x: 300, y: 10 }, { x: 0, y: 20 }, { x: 300, y: 30 }, { x: 0, y: 40 }, { x: 300, y: 50 }],
+  tension: 0.2,
+}
+
+function polylineLength(c: Cubic, t1 = 1, n = 200_000) {
+  let len = 0, prev = c.p0
+  for (let i = 1; i <= n; i++) {
+    const p = cubicPoint(c, (i / n) * t1)
+    len += Math.hypot(p.x - prev.x, p.y - prev.y)
+    prev = p
+  }
+  return len
+}
+
+describe('exact arc length', () => {
+  const bend: Cubic = { p0: { x: 0, y: 0 }, p1: { x: 200, y: 0 }, p2: { x: -100, y: 40 }, p3: { x: 100, y: 40 } }
+
+  it('integrates lines exactly and bends to a fine polyline', () => {
+    const line: Cubic = { p0: { x: 0, y: 0 }, p1: { x: 10, y: 0 }, p2: { x: 70, y: 0 }, p3: { x: 100, y: 0 } }
+    expect(arcLengthAt(line)).toBeCloseTo(100, 9)
+    expect(arcLengthAt(bend)).toBeCloseTo(polylineLength(bend), 4)
+    expect(arcLengthAt(bend, 0.3)).toBeCloseTo(polylineLength(bend, 0.3), 4)
+  })
+
+  it('inverts length to a parameter within the tolerance', () => {
+    const total = arcLengthAt(bend)
+    for (const tol of [1e-2, 1e-5]) {
+      for (let k = 1; k < 20; k++) {
+        const target = (total * k) / 20
+        expect(Math.abs(arcLengthAt(bend, paramAtLength(bend, target, total, tol)) - target)).toBeLessThanOrEqual(tol)
+      }
+    }
+  })
+
+  it.each([
+    { sec: 1, px: 0.05 },
+    { sec: 0.01, px: 1 },
+    { sec: 60, px: 0.001 },
+  ])('round-trips time within %o', (tolerance) => {
+    for (const warp of [undefined, buildTimeWarp([{ time: 0, density: 0.2 }, { time: 43200, density: 3 }, { time: 86400, density: 0.5 }])]) {
+      const lut = buildParamLUT(hairpin, { arcLength: 'exact', tolerance, warp })
+      const pxPerSec = lut.length / 86400
+      for (let t = 0; t <= 86400; t += 86400 / 113) {
+        const back = timeAtPoint(lut, pointAtTime(lut, t))
+        // a px tolerance is worth more seconds wherever the warp is sparse; the sec tolerance holds everywhere
+        expect(Math.abs(back - t)).toBeLessThanOrEqual(warp ? tolerance.sec + 1e-6 : Math.min(tolerance.sec, tolerance.px / pxPerSec) + 1e-6)
+      }
+    }
+  })
+
+  it('places times at their exact share of the length', () => {
+    const lut = buildParamLUT(hairpin, { arcLength: 'exact', tolerance: { px: 1e-4 } })
+    for (let t = 0; t <= 86400; t += 86400 / 37) {
+      const { segIdx, localT } = paramAtTime(lut, t)
+      const s = lut.arc!.segStart[segIdx] + arcLengthAt(lut.segments[segIdx], localT)
+      expect(Math.abs(s - timeToFraction(lut, t) * lut.length)).toBeLessThanOrEqual(1e-4)
+    }
+  })
+})
@@ -0,0 +1,61 @@
+import type { Cubic } from "../types";
+import { cubicDerivative } from "./Bezier";
+
+/**
+ * Exact arc length: Gauss–Legendre quadrature of |B'(t)| per cubic, refined
+ * adaptively until halving an interval changes its length by less than the
+ * tolerance; positions are found by Newton iteration on s(t) = target.
+ */
+const GL_X = [0.1834346424956498, 0.5255324099163290, 0.7966664774136267, 0.9602898564975363];
+const GL_W = [0.3626837833783620, 0.3137066458778873, 0.2223810344533745, 0.1012285362903763];
+
+const QUAD_TOL_PX = 1e-6; // integration error per segment; far below any inversion tolerance
+
+/** 8-point Gauss–Legendre length of `c` over [t0, t1]. */
+export function gaussLength(c: Cubic, t0: number, t1: number): number {
+  const half = (t1 - t0) / 2, mid = (t0 + t1) / 2;
+  let sum = 0;
+  for (let i = 0; i < GL_X.length; i++) {
+    const a = cubicDerivative(c, mid - half * GL_X[i]);
+    const b = cubicDerivative(c, mid + half * GL_X[i]);
+    sum += GL_W[i] * (Math.hypot(a.x, a.y) + Math.hypot(b.x, b.y));
+  }
+  return sum * half;
+}
+
+/** Arc length of `c` from 0 to `t`, adaptive to `tolPx`. */
+export function arcLengthAt(c: Cubic, t = 1, tolPx = QUAD_TOL_PX): number {
+  return t <= 0 ? 0 : adaptive(c, 0, Math.min(1, t), gaussLength(c, 0, Math.min(1, t)), tolPx, 0);
+}
+
+function adaptive(c: Cubic, t0: number, t1: number, whole: number, tol: number, depth: number): number {
+  const m = (t0 + t1) / 2;
+  const left = gaussLength(c, t0, m), right = gaussLength(c, m, t1);
+  if (depth >= 12 || Math.abs(left + right - whole) <= tol) return left + right;
+  return adaptive(c, t0, m, left, tol / 2, depth + 1) + adaptive(c, m, t1, right, tol / 2, depth + 1);
+}
+
+/** Cumulative exact lengths: entry i is where segment i begins, the last entry the total. */
+export function segmentStarts(segments: Cubic[]): number[] {
+  const segStart = [0];
+  for (const c of segments) segStart.push(segStart[segStart.length - 1] + arcLengthAt(c, 1));
+  return segStart;
+}
+
+/** Local parameter at which `c` has covered `target` px (0 ≤ target ≤ its length) to within `tolPx`. */
+export function paramAtLength(c: Cubic, target: number, segLen: number, tolPx: number): number {
+  if (target <= 0 || segLen <= 0) return 0;
+  if (target >= segLen) return 1;
+  let lo = 0, hi = 1;
+  let t = target / segLen;
+  for (let i = 0; i < 32; i++) {
+    const f = arcLengthAt(c, t) - target;
+    if (Math.abs(f) <= tolPx) break;
+    if (f > 0) hi = t; else lo = t;
+    const d = cubicDerivative(c, t);
+    const next = t - f / Math.hypot(d.x, d.y);
+    // Newton while it stays inside the bracket; bisect through cusps and flat ends
+    t = next > lo && next < hi ? next : (lo + hi) / 2;
+  }
+  return t;
+}
@@ -1,4 +1,4 @@
-import { cubicPoint, sampleCubic } from './Bezier'
+import { cubicPoint, sampleCubic, splitCubic } from './Bezier'
 import type { Cubic } from '../types'
 
 describe('Bezier sampling', () => {
@@ -16,6 +16,20 @@ describe('Bezier sampling', () => {
     expect(pt[pt.length - 1]).toEqual(c.p3)
     for (let i = 1; i < t.length; i++) expect(t[i]).toBeGreaterThan(t[i-1])
   })
-})
-
 
+  it('splitCubic halves trace the original curve', () => {
+    const c: Cubic = {
+      p0: { x: 0, y: 0 },
+      p1: { x: 50, y: 100 },
+      p2: { x: 150, y: -100 },
+      p3: { x: 300, y: 0 },
+    }
+    const [a, b] = splitCubic(c, 0.3)
+    for (const u of [0, 0.25, 0.5, 1]) {
+      const pa = cubicPoint(a, u), qa = cubicPoint(c, 0.3 * u)
+      const pb = cubicPoint(b, u), qb = cubicPoint(c, 0.3 + 0.7 * u)
+      expect(pa.x).toBeCloseTo(qa.x, 9); expect(pa.y).toBeCloseTo(qa.y, 9)
+      expect(pb.x).toBeCloseTo(qb.x, 9); expect(pb.y).toBeCloseTo(qb.y, 9)
+    }
+  })
+})
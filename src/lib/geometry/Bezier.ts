@@ -34,6 +34,44 @@ export function cubicNormal(c: Cubic, t: number): Vec2 {
   return { x: n.x / L, y: n.y / L };
 }
 
+/** De Casteljau split at t: two cubics that trace exactly the same curve. */
+export function splitCubic(c: Cubic, t: number): [Cubic, Cubic] {
+  const lerp = (a: Vec2, b: Vec2) => ({ x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t });
+  const p01 = lerp(c.p0, c.p1), p12 = lerp(c.p1, c.p2), p23 = lerp(c.p2, c.p3);
+  const p012 = lerp(p01, p12), p123 = lerp(p12, p23);
+  const m = lerp(p012, p123);
+  return [
+    { p0: c.p0, p1: p01, p2: p012, p3: m },
+    { p0: m, p1: p123, p2: p23, p3: c.p3 },
+  ];
+}
+
+/** The piece of a cubic between local parameters t0 < t1. */
+export function subCubic(c: Cubic, t0: number, t1: number): Cubic {
+  const left = t1 >= 1 ? c : splitCubic(c, t1)[0];
+  if (t0 <= 0) return left;
+  return splitCubic(left, t0 / t1)[1];
+}
+
+/** Approximate parallel offset: shift end points and arms along the end normals. */
+export function offsetCubic(c: Cubic, d: number): Cubic {
+  const n0 = cubicNormal(c, 0.001);
+  const n1 = cubicNormal(c, 0.999);
+  return {
+    p0: add(c.p0, mul(n0, d)),
+    p1: add(c.p1, mul(n0, d)),
+    p2: add(c.p2, mul(n1, d)),
+    p3: add(c.p3, mul(n1, d)),
+  };
+}
+
+/** SVG path data for a chain of cubics. */
+export function cubicsToPath(cubics: Cubic[]): string {
+  return cubics
+    .map((c, i) => `${i === 0 ? `M ${c.p0.x},${c.p0.y}` : ""} C ${c.p1.x},${c.p1.y} ${c.p2.x},${c.p2.y} ${c.p3.x},${c.p3.y}`)
+    .join(" ");
+}
+
 export function polylineLength(pts: Vec2[]): number {
   let L = 0;
   for (let i = 1; i < pts.length; i++) L += Math.hypot(pts[i].x - pts[i-1].x, pts[i].y - pts[i-1].y);
@@ -107,21 +145,29 @@ export function projectPointToCubic(c: Cubic, p: Vec2, coarseSteps = 25): { t: n
     const d2 = (q.x - p.x) ** 2 + (q.y - p.y) ** 2;
     if (d2 < bestD2) { bestD2 = d2; bestT = t; bestPt = q; }
   }
-  // refine with Newton (Clamp each iteration)
-  for (let iter = 0; iter < 2; iter++) {
+  // refine with damped Newton: steps stay within one coarse cell and are halved until they
+  // improve, so tight turns (where the hessian goes negative) can't throw the answer away
+  const maxStep = 1 / coarseSteps;
+  for (let iter = 0; iter < 4; iter++) {
     const q = cubicPoint(c, bestT);
     const dq = cubicDerivative(c, bestT);
     // minimize f(t) = |q(t)-p|^2 ; f' = 2 dq·(q - p)
     const grad = 2 * (dq.x * (q.x - p.x) + dq.y * (q.y - p.y));
+    if (Math.abs(grad) < 1e-12) break;
     const d2q = secondDerivative(c, bestT);
     const hess = 2 * (d2q.x * (q.x - p.x) + d2q.y * (q.y - p.y) + dq.x * dq.x + dq.y * dq.y);
-    if (Math.abs(hess) < 1e-6) break;
-    let tNext = bestT - grad / hess;
-    if (!Number.isFinite(tNext)) break;
-    bestT = Math.min(1, Math.max(0, tNext));
+    let step = hess > 1e-6 ? -grad / hess : -Math.sign(grad) * maxStep;
+    if (!Number.isFinite(step)) break;
+    step = Math.max(-maxStep, Math.min(maxStep, step));
+    let improved = false;
+    for (let k = 0; k < 6 && !improved; k++, step /= 2) {
+      const tNext = Math.min(1, Math.max(0, bestT + step));
+      const qNext = cubicPoint(c, tNext);
+      const d2Next = (qNext.x - p.x) ** 2 + (qNext.y - p.y) ** 2;
+      if (d2Next < bestD2) { bestT = tNext; bestPt = qNext; bestD2 = d2Next; improved = true; }
+    }
+    if (!improved) break;
   }
-  bestPt = cubicPoint(c, bestT);
-  bestD2 = (bestPt.x - p.x) ** 2 + (bestPt.y - p.y) ** 2;
   return { t: bestT, pt: bestPt, dist2: bestD2 };
 }
 
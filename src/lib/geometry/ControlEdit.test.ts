@@ -0,0 +1,53 @@
+import { MIN_CONTROLS, insertControl, removeControl } from './ControlEdit'
+import { curveSegments } from './CurveModel'
+import { buildSegmentIndex, nearestOnSegments } from './SpatialIndex'
+import { cubicPoint } from './Bezier'
+import type { CurveModelName, Vec2 } from '../types'
+
+const zigzag: Vec2[] = [{ x: 0, y: 150 }, { x: 200, y: 50 }, { x: 400, y: 250 }, { x: 600, y: 100 }, { x: 800, y: 150 }]
+
+/** Farthest the old path gets from the new one. */
+function stray(before: Vec2[], after: Vec2[], model?: CurveModelName) {
+  const a = curveSegments(before, 0.5, model), b = curveSegments(after, 0.5, model)
+  const index = buildSegmentIndex(b)
+  let worst = 0
+  for (const c of a) for (let k = 0; k <= 40; k++) worst = Math.max(worst, nearestOnSegments(index, b, cubicPoint(c, k / 40))!.dist2)
+  return Math.sqrt(worst)
+}
+
+describe('insertControl', () => {
+  it.each(['catmull-rom', 'centripetal', 'monotone', 'symmetric-arms'] as const)('splits a %s path without visibly changing it', (model) => {
+    const tap = cubicPoint(curveSegments(zigzag, 0.5, model)[1], 0.4)
+    const next = insertControl(zigzag, 1, 0.4, 0.5, model)
+    expect(next).toHaveLength(zigzag.length + 1)
+    // existing anchors stay where the user put them; the new one is next to the tap
+    expect([...next.slice(0, 2), ...next.slice(3)]).toEqual(zigzag)
+    expect(Math.hypot(next[2].x - tap.x, next[2].y - tap.y)).toBeLessThan(25)
+    expect(stray(zigzag, next, model)).toBeLessThan(model === 'symmetric-arms' ? 16 : 10)
+  })
+})
+
+describe('removeControl', () => {
+  it('re-fits the neighbours closer to the old path than a plain removal', () => {
+    for (const i of [1, 2, 3]) {
+      const plain = [...zigzag.slice(0, i), ...zigzag.slice(i + 1)]
+      const next = removeControl(zigzag, i, 0.5)
+      expect(next).toHaveLength(zigzag.length - 1)
+      expect(next[0]).toEqual(zigzag[0])
+      expect(next[next.length - 1]).toEqual(zigzag[zigzag.length - 1])
+      expect(stray(zigzag, next)).toBeLessThan(0.8 * stray(zigzag, plain))
+    }
+  })
+
+  it('undoes an insertion', () => {
+    const next = removeControl(insertControl(zigzag, 2, 0.5, 0.5), 3, 0.5)
+    expect(stray(zigzag, next)).toBeLessThan(10)
+  })
+
+  it('keeps the start and end of the curve', () => {
+    const two = [{ x: 0, y: 0 }, { x: 100, y: 0 }]
+    expect(MIN_CONTROLS).toBe(2)
+    expect(removeControl(two, 0, 0.5)).toBe(two)
+    expect(removeControl(zigzag, 0, 0.5)[0]).toEqual(zigzag[1])
+  })
+})
@@ -0,0 +1,123 @@
+import type { CurveControlPoint, CurveModelName, Cubic, Vec2 } from "../types";
+import { cubicPoint, splitCubic } from "./Bezier";
+import { curveSegments } from "./CurveModel";
+import { buildSegmentIndex, nearestOnSegments } from "./SpatialIndex";
+
+/** Fewest controls a curve keeps: its start and its end. */
+export const MIN_CONTROLS = 2;
+
+const SLIDE_STEPS = 8;   // candidate spots per neighbour when re-fitting
+const SAMPLES = 16;      // per segment of the stretch being compared
+
+/**
+ * Add a control where segment `seg` is split at `t`. The de Casteljau split
+ * point starts the new anchor on the path; it is then nudged to wherever the
+ * reshaped neighbourhood strays least from the old curve, since each model
+ * bends differently around an extra anchor. Existing anchors stay put.
+ */
+export function insertControl(controls: CurveControlPoint[], seg: number, t: number, tension: number,
+  model?: CurveModelName): CurveControlPoint[] {
+  const old = curveSegments(controls, tension, model);
+  if (!old.length) return controls;
+  const s = Math.max(0, Math.min(old.length - 1, seg));
+  const [left, right] = splitCubic(old[s], Math.min(1, Math.max(0, t)));
+  const inserted = [...controls.slice(0, s + 1), { x: left.p3.x, y: left.p3.y }, ...controls.slice(s + 1)];
+  const samples = sampleStretch(old, s - 1, s + 2);
+  // the handle appears next to the tap, not wherever the fit would wander
+  const reach = Math.min(chord(left), chord(right)) / 8;
+  return settle(inserted, [s + 1], samples, tension, model, reach);
+}
+
+/**
+ * Drop control `i` and re-fit: the interior neighbours slide along the old path
+ * to wherever the new one strays least from it. The ends of the curve only
+ * move when one of them is the control removed.
+ */
+export function removeControl(controls: CurveControlPoint[], i: number, tension: number,
+  model?: CurveModelName): CurveControlPoint[] {
+  if (controls.length <= MIN_CONTROLS || i < 0 || i >= controls.length) return controls;
+  const old = curveSegments(controls, tension, model);
+  const without = [...controls.slice(0, i), ...controls.slice(i + 1)];
+  // the old stretch the removal reshapes: from two anchors before to two after
+  const samples = sampleStretch(old, i - 2, i + 2);
+
+  // each movable neighbour may sit anywhere on the old path between its own neighbours;
+  // a neighbour that becomes the new start or end stays put
+  const last = controls.length - 1;
+  const slots: { at: number; from: number; to: number }[] = [];
+  if (i - 1 > 0 && i < last) slots.push({ at: i - 1, from: i - 2, to: i });
+  if (i + 1 < last && i > 0) slots.push({ at: i, from: i, to: i + 2 });
+  let best = without, bestError = strayFrom(without, samples, tension, model);
+  const candidates = (slot: { from: number; to: number }) =>
+    Array.from({ length: SLIDE_STEPS - 1 }, (_, k) => pointAtParam(old, slot.from + ((k + 1) / SLIDE_STEPS) * (slot.to - slot.from)));
+  const options = slots.map((slot) => [without[slot.at], ...candidates(slot)]);
+  for (const combo of product(options)) {
+    const next = without.slice();
+    slots.forEach((slot, k) => { next[slot.at] = combo[k]; });
+    const error = strayFrom(next, samples, tension, model);
+    if (error < bestError) { best = next; bestError = error; }
+  }
+  // then off the path a little, where that helps
+  const reach = slots.length ? Math.max(...slots.map((slot) => chord(old[slot.from]))) / 8 : 0;
+  return settle(best, slots.map((slot) => slot.at), samples, tension, model, reach);
+}
+
+/**
+ * Compass search: try each free anchor a step away along x and y, keep any
+ * move that brings the path closer to `samples`, halve the step when none does.
+ * No anchor ends up more than `reach` from where it started.
+ */
+function settle(controls: Vec2[], free: number[], samples: Vec2[], tension: number, model: CurveModelName | undefined,
+  reach: number): CurveControlPoint[] {
+  let best = controls.map((p) => ({ x: p.x, y: p.y }));
+  let bestError = strayFrom(best, samples, tension, model);
+  let step = reach / 2;
+  const minStep = reach / 128;
+  for (let iter = 0; iter < 64 && step > minStep && free.length; iter++) {
+    let improved = false;
+    for (const i of free) {
+      for (const [dx, dy] of [[step, 0], [-step, 0], [0, step], [0, -step]]) {
+        const moved = { x: best[i].x + dx, y: best[i].y + dy };
+        if (Math.hypot(moved.x - controls[i].x, moved.y - controls[i].y) > reach) continue;
+        const next = best.slice();
+        next[i] = moved;
+        const error = strayFrom(next, samples, tension, model);
+        if (error < bestError) { best = next; bestError = error; improved = true; }
+      }
+    }
+    if (!improved) step /= 2;
+  }
+  return best;
+}
+
+/** Evenly spaced points along segments first..last-1 (clamped to the path). */
+function sampleStretch(segments: Cubic[], first: number, last: number): Vec2[] {
+  const out: Vec2[] = [];
+  for (let s = Math.max(0, first); s < Math.min(segments.length, last); s++) {
+    for (let k = 0; k < SAMPLES; k++) out.push(cubicPoint(segments[s], k / SAMPLES));
+  }
+  return out;
+}
+
+function chord(c: Cubic): number {
+  return Math.hypot(c.p3.x - c.p0.x, c.p3.y - c.p0.y);
+}
+
+/** Farthest any of `samples` lies from the path through `controls`. */
+function strayFrom(controls: Vec2[], samples: Vec2[], tension: number, model?: CurveModelName): number {
+  const segments = curveSegments(controls, tension, model);
+  const index = buildSegmentIndex(segments);
+  let worst = 0;
+  for (const p of samples) worst = Math.max(worst, nearestOnSegments(index, segments, p)?.dist2 ?? 0);
+  return Math.sqrt(worst);
+}
+
+/** Point at a global parameter: segment index plus local t. */
+function pointAtParam(segments: Cubic[], g: number): Vec2 {
+  const s = Math.max(0, Math.min(segments.length - 1, Math.floor(g)));
+  return cubicPoint(segments[s], Math.min(1, g - s));
+}
+
+function product<T>(lists: T[][]): T[][] {
+  return lists.reduce<T[][]>((acc, list) => acc.flatMap((combo) => list.map((x) => [...combo, x])), [[]]);
+}
@@ -0,0 +1,56 @@
+import { CURVE_MODEL_NAMES, curveSegments, isCurveModelName } from './CurveModel'
+import { getSmoothSegments } from './SmoothPath'
+import { buildParamLUT, pointAtTime } from './ParamMap'
+import { cubicPoint, sub } from './Bezier'
+import type { Vec2 } from '../types'
+
+const zigzag: Vec2[] = [
+  { x: 0, y: 0 }, { x: 120, y: 80 }, { x: 20, y: 200 }, { x: 140, y: 260 }, { x: 150, y: 400 },
+]
+
+function cross(a: Vec2, b: Vec2) { return a.x * b.y - a.y * b.x }
+
+describe('curve models', () => {
+  it.each(CURVE_MODEL_NAMES)('%s passes through every control with a smooth join', (name) => {
+    const segs = curveSegments(zigzag, 0.5, name)
+    expect(segs).toHaveLength(zigzag.length - 1)
+    segs.forEach((c, i) => {
+      expect(c.p0).toEqual(zigzag[i])
+      expect(c.p3).toEqual(zigzag[i + 1])
+    })
+    for (let i = 1; i < segs.length; i++) {
+      const a = sub(segs[i - 1].p3, segs[i - 1].p2), b = sub(segs[i].p1, segs[i].p0)
+      if (Math.hypot(a.x, a.y) < 1e-9 || Math.hypot(b.x, b.y) < 1e-9) continue // flat tangent (monotone extremum)
+      expect(Math.abs(cross(a, b)) / (Math.hypot(a.x, a.y) * Math.hypot(b.x, b.y))).toBeLessThan(1e-9)
+    }
+  })
+
+  it('keeps the symmetric-arms shape the app has always drawn', () => {
+    expect(curveSegments(zigzag, 0.6, 'symmetric-arms')).toEqual(getSmoothSegments(zigzag, 0.4))
+  })
+
+  it('never overshoots with the monotone model', () => {
+    const segs = curveSegments(zigzag, 0.5, 'monotone')
+    segs.forEach((c) => {
+      for (let t = 0; t <= 1; t += 0.05) {
+        const p = cubicPoint(c, t)
+        expect(p.x).toBeGreaterThanOrEqual(Math.min(c.p0.x, c.p3.x) - 1e-9)
+        expect(p.x).toBeLessThanOrEqual(Math.max(c.p0.x, c.p3.x) + 1e-9)
+        expect(p.y).toBeGreaterThanOrEqual(Math.min(c.p0.y, c.p3.y) - 1e-9)
+        expect(p.y).toBeLessThanOrEqual(Math.max(c.p0.y, c.p3.y) + 1e-9)
+      }
+    })
+  })
+
+  it('feeds any model through the shared LUT', () => {
+    const curve = { controls: zigzag, tension: 0.5 }
+    for (const model of CURVE_MODEL_NAMES) {
+      const lut = buildParamLUT(curve, { model })
+      expect(pointAtTime(lut, 0)).toEqual(zigzag[0])
+      const end = pointAtTime(lut, 86400)
+      expect(end.x).toBeCloseTo(150, 6)
+      expect(end.y).toBeCloseTo(400, 6)
+    }
+    expect(isCurveModelName('bspline')).toBe(false)
+  })
+})
@@ -0,0 +1,130 @@
+import type { CurveControlPoint, CurveModel, CurveModelName, Cubic, Vec2 } from "../types";
+import { add, mul, sub } from "./Bezier";
+import { getSmoothSegments } from "./SmoothPath";
+
+/**
+ * Every way of turning controls into a path. Each model only produces cubic
+ * segments; path data, the arc-length LUT and time mapping are shared
+ * (`buildParamLUT`), so renderers can switch models by name.
+ */
+export const CURVE_MODELS: Record<CurveModelName, CurveModel> = {
+  "catmull-rom": { name: "catmull-rom", label: "Catmull-Rom", segments: catmullRomSegments },
+  "centripetal": { name: "centripetal", label: "Centripetal Catmull-Rom", segments: centripetalSegments },
+  "symmetric-arms": { name: "symmetric-arms", label: "Symmetric arms", segments: (pts, tension) => getSmoothSegments(pts, 1 - clamp(tension, 0, 1)) },
+  "monotone": { name: "monotone", label: "Monotone", segments: monotoneSegments },
+};
+
+export const CURVE_MODEL_NAMES = Object.keys(CURVE_MODELS) as CurveModelName[];
+
+export function isCurveModelName(x: unknown): x is CurveModelName {
+  return typeof x === "string" && Object.prototype.hasOwnProperty.call(CURVE_MODELS, x);
+}
+
+/** Cubic segments through `controls` with the named model (Catmull-Rom by default). */
+export function curveSegments(controls: CurveControlPoint[], tension: number, model: CurveModelName = "catmull-rom"): Cubic[] {
+  return CURVE_MODELS[model].segments(controls.map(p => ({ x: p.x, y: p.y })), tension);
+}
+
+/** Adaptive uniform Catmull–Rom → Bézier: handles shorten on sharp turns. */
+export function catmullRomSegments(pts: Vec2[], tension: number): Cubic[] {
+  if (pts.length < 2) return [];
+  // Duplicate endpoints for boundary conditions
+  const P: Vec2[] = [pts[0], ...pts, pts[pts.length - 1]];
+  // Cap tension to keep curves tame
+  const tight = clamp(tension, 0.15, 0.85);
+  const segs: Cubic[] = [];
+
+  for (let i = 0; i < pts.length - 1; i++) {
+    const p0 = P[i];
+    const p1 = P[i + 1];
+    const p2 = P[i + 2];
+    const p3 = P[i + 3];
+
+    // Calculate angle change at each endpoint
+    const n01 = unit(sub(p1, p0));
+    const n12 = unit(sub(p2, p1));
+    const n23 = unit(sub(p3, p2));
+
+    // Adaptive strength: tighter on sharp turns, looser on smooth curves
+    const sharpness1 = 1 - Math.abs(n01.x * n12.x + n01.y * n12.y); // 0 = smooth, 1 = sharp turn
+    const sharpness2 = 1 - Math.abs(n12.x * n23.x + n12.y * n23.y);
+    const scale1 = 0.4 + 0.6 * (1 - sharpness1); // Range: 0.4 to 1.0
+    const scale2 = 0.4 + 0.6 * (1 - sharpness2);
+
+    const s = (1 - tight) / 6;
+    const b1 = add(p1, mul(sub(p2, p0), s * scale1));
+    const b2 = sub(p2, mul(sub(p3, p1), s * scale2));
+
+    segs.push({ p0: p1, p1: b1, p2: b2, p3: p2 });
+  }
+  return segs;
+}
+
+/**
+ * Centripetal Catmull–Rom (α = ½): knots spaced by √distance, so uneven
+ * spacing never produces cusps or self-loops. Tension 0 is the textbook curve.
+ */
+export function centripetalSegments(pts: Vec2[], tension: number): Cubic[] {
+  if (pts.length < 2) return [];
+  // Reflected phantom endpoints keep the end tangents pointing along the path
+  const P: Vec2[] = [sub(mul(pts[0], 2), pts[1] ?? pts[0]), ...pts, sub(mul(pts[pts.length - 1], 2), pts[pts.length - 2] ?? pts[0])];
+  const k = 1 - clamp(tension, 0, 1);
+  const segs: Cubic[] = [];
+
+  for (let i = 0; i < pts.length - 1; i++) {
+    const [p0, p1, p2, p3] = [P[i], P[i + 1], P[i + 2], P[i + 3]];
+    const t01 = knot(p0, p1), t12 = knot(p1, p2), t23 = knot(p2, p3);
+    const chord = sub(p2, p1);
+    // tangents of the non-uniform Catmull–Rom, scaled to the [p1,p2] parameter interval
+    const m1 = add(chord, mul(sub(mul(sub(p1, p0), 1 / t01), mul(sub(p2, p0), 1 / (t01 + t12))), t12));
+    const m2 = add(chord, mul(sub(mul(sub(p3, p2), 1 / t23), mul(sub(p3, p1), 1 / (t12 + t23))), t12));
+    segs.push({ p0: p1, p1: add(p1, mul(m1, k / 3)), p2: sub(p2, mul(m2, k / 3)), p3: p2 });
+  }
+  return segs;
+}
+
+/**
+ * Monotone cubic (Fritsch–Carlson per axis): x and y each stay between
+ * neighbouring controls, so the path never overshoots a node. Tension has no
+ * effect; the data limits the tangents.
+ */
+export function monotoneSegments(pts: Vec2[]): Cubic[] {
+  if (pts.length < 2) return [];
+  const mx = monotoneSlopes(pts.map(p => p.x));
+  const my = monotoneSlopes(pts.map(p => p.y));
+  const segs: Cubic[] = [];
+  for (let i = 0; i < pts.length - 1; i++) {
+    const a = pts[i], b = pts[i + 1];
+    segs.push({
+      p0: a,
+      p1: { x: a.x + mx[i] / 3, y: a.y + my[i] / 3 },
+      p2: { x: b.x - mx[i + 1] / 3, y: b.y - my[i + 1] / 3 },
+      p3: b,
+    });
+  }
+  return segs;
+}
+
+/** Slopes per unit index: zero at extrema, harmonic mean of the secants elsewhere. */
+function monotoneSlopes(v: number[]): number[] {
+  const d = v.slice(1).map((x, i) => x - v[i]);
+  return v.map((_, i) => {
+    if (i === 0) return d[0];
+    if (i === v.length - 1) return d[i - 1];
+    const a = d[i - 1], b = d[i];
+    return a * b <= 0 ? 0 : (2 * a * b) / (a + b);
+  });
+}
+
+function knot(a: Vec2, b: Vec2): number {
+  return Math.sqrt(Math.hypot(b.x - a.x, b.y - a.y)) || 1e-6;
+}
+
+function unit(v: Vec2): Vec2 {
+  const l = Math.hypot(v.x, v.y) || 1;
+  return { x: v.x / l, y: v.y / l };
+}
+
+function clamp(x: number, lo: number, hi: number) {
+  return Math.min(hi, Math.max(lo, x));
+}
@@ -0,0 +1,56 @@
+import { cleanStroke, fitStroke } from './Fit'
+import { buildParamLUT, pointAtTime, timeAtPoint } from './ParamMap'
+import type { Vec2 } from '../types'
+
+// a hand-drawn serpentine: three sweeps down the page, sampled unevenly with jitter
+function serpentineStroke(): Vec2[] {
+  const out: Vec2[] = []
+  let seed = 3
+  const jitter = () => { seed = (seed * 16807) % 2147483647; return (seed / 2147483647 - 0.5) * 2 }
+  for (let i = 0; i <= 300; i++) {
+    const u = (i / 300) ** 1.3 // the hand speeds up
+    out.push({ x: 200 + 140 * Math.sin(u * 3 * Math.PI) + jitter(), y: 60 + 680 * u + jitter() })
+  }
+  return out
+}
+
+function worstDistance(stroke: Vec2[], controls: Vec2[], model?: 'catmull-rom' | 'monotone') {
+  const lut = buildParamLUT({ controls, tension: 0.5 }, { model })
+  let worst = 0
+  for (const p of cleanStroke(stroke, 2)) {
+    const q = pointAtTime(lut, timeAtPoint(lut, p))
+    worst = Math.max(worst, Math.hypot(q.x - p.x, q.y - p.y))
+  }
+  return worst
+}
+
+describe('fitStroke', () => {
+  it('needs only the ends for a straight stroke', () => {
+    const line = Array.from({ length: 50 }, (_, i) => ({ x: 10 + i * 4, y: 100 + i * 2 }))
+    const fit = fitStroke(line)
+    expect(fit).toHaveLength(2)
+    expect(fit[0]).toEqual(line[0])
+    expect(fit[1]).toEqual(line[line.length - 1])
+  })
+
+  it.each([4, 8, 16])('stays within %ipx of the stroke with a handful of anchors', (tolerancePx) => {
+    const stroke = serpentineStroke()
+    const fit = fitStroke(stroke, { tolerancePx })
+    expect(fit.length).toBeLessThan(16)
+    expect(worstDistance(stroke, fit)).toBeLessThanOrEqual(tolerancePx + 1) // + the smoothing pass
+  })
+
+  it('spends more anchors on a tighter tolerance, and fits other models too', () => {
+    const stroke = serpentineStroke()
+    expect(fitStroke(stroke, { tolerancePx: 2 }).length).toBeGreaterThan(fitStroke(stroke, { tolerancePx: 16 }).length)
+    const monotone = fitStroke(stroke, { tolerancePx: 6, model: 'monotone' })
+    expect(worstDistance(stroke, monotone, 'monotone')).toBeLessThanOrEqual(7)
+  })
+
+  it('keeps at least minAnchors and starts where the stroke starts', () => {
+    const line = Array.from({ length: 50 }, (_, i) => ({ x: 300 - i * 4, y: 700 - i * 10 }))
+    const fit = fitStroke(line, { minAnchors: 4 })
+    expect(fit).toHaveLength(4)
+    expect(fit[0]).toEqual({ x: 300, y: 700 })
+  })
+})
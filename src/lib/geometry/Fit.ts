@@ -0,0 +1,101 @@
+import type { CurveControlPoint, CurveModelName, Vec2 } from "../types";
+import { cubicPoint } from "./Bezier";
+import { curveSegments } from "./CurveModel";
+import { buildSegmentIndex, nearestOnSegments } from "./SpatialIndex";
+
+export type FitOptions = {
+  tolerancePx?: number;     // farthest the fitted curve may stray from the stroke (default 8)
+  tension?: number;         // passed to the curve model (default 0.5)
+  model?: CurveModelName;   // the model the result will be drawn with (default catmull-rom)
+  minAnchors?: number;      // e.g. 4 for CurveKit's sculpt handles (default 2)
+  maxAnchors?: number;      // give up refining past this many (default 24)
+};
+
+/**
+ * Fit a freehand stroke with the fewest anchors the curve model needs to stay
+ * within `tolerancePx` of it, both ways (no stroke point far from the curve, no
+ * curve bulge far from the stroke). Anchors are stroke samples: the worst-fitting
+ * one is added until the fit holds, then anchors that turn out redundant are
+ * dropped again. The stroke's first point becomes the start of the routine.
+ */
+export function fitStroke(stroke: Vec2[], opts: FitOptions = {}): CurveControlPoint[] {
+  const { tolerancePx = 8, tension = 0.5, model = "catmull-rom", minAnchors = 2, maxAnchors = 24 } = opts;
+  const pts = cleanStroke(stroke, Math.max(1, tolerancePx / 2));
+  if (pts.length < 2) return pts;
+
+  const idx = [0, pts.length - 1];
+  for (;;) {
+    const { error, at } = fitError(pts, idx, tension, model);
+    if ((error <= tolerancePx && idx.length >= minAnchors) || idx.length >= Math.min(maxAnchors, pts.length)) break;
+    if (!insertSorted(idx, at >= 0 ? at : spread(idx))) break;
+  }
+  // greedy insertion can leave anchors a later one made redundant
+  for (let k = 1; k < idx.length - 1 && idx.length > minAnchors; ) {
+    const without = [...idx.slice(0, k), ...idx.slice(k + 1)];
+    if (fitError(pts, without, tension, model).error <= tolerancePx) idx.splice(k, 1);
+    else k++;
+  }
+  return idx.map((i) => ({ x: pts[i].x, y: pts[i].y }));
+}
+
+/**
+ * Even spacing and a light smoothing pass: pointer samples bunch up where the
+ * hand slows down and carry a pixel or two of jitter.
+ */
+export function cleanStroke(stroke: Vec2[], spacingPx: number): Vec2[] {
+  const raw = stroke.filter((p, i) => i === 0 || Math.hypot(p.x - stroke[i - 1].x, p.y - stroke[i - 1].y) > 0.5);
+  if (raw.length < 2) return raw.slice(0, 1);
+  const out: Vec2[] = [raw[0]];
+  let carry = 0;
+  for (let i = 1; i < raw.length; i++) {
+    const a = raw[i - 1], b = raw[i];
+    const d = Math.hypot(b.x - a.x, b.y - a.y);
+    for (let s = spacingPx - carry; s < d; s += spacingPx) {
+      out.push({ x: a.x + ((b.x - a.x) * s) / d, y: a.y + ((b.y - a.y) * s) / d });
+    }
+    carry = (carry + d) % spacingPx;
+  }
+  out.push(raw[raw.length - 1]);
+  // moving average over neighbours; ends stay where the user put them
+  return out.map((p, i) =>
+    i === 0 || i === out.length - 1 ? p
+      : { x: (out[i - 1].x + 2 * p.x + out[i + 1].x) / 4, y: (out[i - 1].y + 2 * p.y + out[i + 1].y) / 4 });
+}
+
+/** Worst distance between stroke and curve, and the stroke sample that would best fix it. */
+function fitError(pts: Vec2[], idx: number[], tension: number, model: CurveModelName): { error: number; at: number } {
+  const segments = curveSegments(idx.map((i) => pts[i]), tension, model);
+  const index = buildSegmentIndex(segments);
+  let error = 0, at = -1, atError = 0;
+  const consider = (d: number, i: number) => {
+    error = Math.max(error, d);
+    if (d > atError && !idx.includes(i)) { atError = d; at = i; }
+  };
+  // stroke → curve: samples the curve misses
+  for (let i = 0; i < pts.length; i++) consider(Math.sqrt(nearestOnSegments(index, segments, pts[i])?.dist2 ?? 0), i);
+  // curve → stroke: bulges between anchors; the fix is the stroke sample halfway along that span
+  segments.forEach((c, s) => {
+    for (let k = 1; k < 8; k++) {
+      const q = cubicPoint(c, k / 8);
+      let d = Infinity;
+      for (let i = idx[s]; i <= idx[s + 1]; i++) d = Math.min(d, Math.hypot(pts[i].x - q.x, pts[i].y - q.y));
+      consider(d, (idx[s] + idx[s + 1]) >> 1);
+    }
+  });
+  return { error, at };
+}
+
+/** Middle of the widest gap between anchors: where to add one when the fit is already good. */
+function spread(idx: number[]): number {
+  let best = 0;
+  for (let k = 1; k < idx.length; k++) if (idx[k] - idx[k - 1] > idx[best + 1] - idx[best]) best = k - 1;
+  return (idx[best] + idx[best + 1]) >> 1;
+}
+
+function insertSorted(arr: number[], x: number): boolean {
+  let i = 0;
+  while (i < arr.length && arr[i] < x) i++;
+  if (arr[i] === x) return false;
+  arr.splice(i, 0, x);
+  return true;
+}
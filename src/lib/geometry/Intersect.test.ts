@@ -0,0 +1,65 @@
+import { cubicIntersections, selfIntersections } from './Intersect'
+import { buildParamLUT, controlsToSegments, paramAtTime, pointAtTime, timeAtPoint } from './ParamMap'
+import type { CurveState, Cubic } from '../types'
+
+const line = (x0: number, y0: number, x1: number, y1: number): Cubic => ({
+  p0: { x: x0, y: y0 }, p1: { x: x0 + (x1 - x0) / 3, y: y0 + (y1 - y0) / 3 },
+  p2: { x: x0 + (2 * (x1 - x0)) / 3, y: y0 + (2 * (y1 - y0)) / 3 }, p3: { x: x1, y: y1 },
+})
+
+// a serpentine whose third leg swings back across the first
+const crossed: CurveState = {
+  controls: [{ x: 0, y: 0 }, { x: 300, y: 100 }, { x: 300, y: 200 }, { x: 150, y: -100 }, { x: 100, y: 300 }],
+  tension: 0.5,
+}
+
+describe('intersections', () => {
+  it('finds where two cubics cross', () => {
+    const hits = cubicIntersections(line(0, 0, 100, 100), line(0, 100, 100, 0))
+    expect(hits).toHaveLength(1)
+    expect(hits[0].point.x).toBeCloseTo(50, 0)
+    expect(hits[0].ta).toBeCloseTo(0.5, 2)
+    expect(cubicIntersections(line(0, 0, 100, 0), line(0, 10, 100, 10))).toEqual([])
+  })
+
+  it('ignores the joints between neighbouring segments', () => {
+    const serpentine = controlsToSegments([{ x: 0, y: 0 }, { x: 200, y: 50 }, { x: 0, y: 100 }, { x: 200, y: 150 }], 0.5)
+    expect(selfIntersections(serpentine)).toEqual([])
+  })
+
+  it('reports a path crossing itself, and a loop inside one segment', () => {
+    const found = selfIntersections(controlsToSegments(crossed.controls, crossed.tension))
+    expect(found.length).toBeGreaterThan(0)
+    const loop: Cubic = { p0: { x: 0, y: 0 }, p1: { x: 200, y: 100 }, p2: { x: -100, y: 100 }, p3: { x: 100, y: 0 } }
+    const [x] = selfIntersections([loop])
+    expect(x.a).toBe(0)
+    expect(x.b).toBe(0)
+    expect(x.point.x).toBeCloseTo(50, 0)
+  })
+
+  it('keeps a drag on its own branch through a crossing', () => {
+    const lut = buildParamLUT(crossed)
+    const [x] = selfIntersections(lut.segments)
+    expect(x.b - x.a).toBeGreaterThan(1)
+    // approach the crossing along each branch in turn; each should stay where it came from
+    const times = [timeAt(lut, x.a, x.ta), timeAt(lut, x.b, x.tb)]
+    for (const t of times) {
+      const back = timeAtPoint(lut, pointAtTime(lut, t), { near: t - 600 })
+      expect(Math.abs(back - t)).toBeLessThan(120)
+    }
+    // without the hint the same point can only ever give one of the two answers
+    const plain = timeAtPoint(lut, pointAtTime(lut, times[0]))
+    expect(Math.min(...times.map(t => Math.abs(plain - t)))).toBeLessThan(120)
+  })
+})
+
+/** Time at which the path reaches (seg, localT): paramAtTime is monotone, so bisect. */
+function timeAt(lut: ReturnType<typeof buildParamLUT>, seg: number, localT: number) {
+  let lo = 0, hi = 86400
+  for (let i = 0; i < 50; i++) {
+    const mid = (lo + hi) / 2
+    const { segIdx, localT: t } = paramAtTime(lut, mid)
+    if (segIdx + t < seg + localT) lo = mid; else hi = mid
+  }
+  return (lo + hi) / 2
+}
@@ -0,0 +1,75 @@
+import type { Box, Cubic, Vec2 } from "../types";
+import { cubicPoint, splitCubic } from "./Bezier";
+import { hullBox } from "./SpatialIndex";
+
+/** Where two pieces of the path cross: segment indices with their local parameters. */
+export type Crossing = { a: number; ta: number; b: number; tb: number; point: Vec2 };
+
+const MAX_DEPTH = 24;
+
+/**
+ * Crossings of two cubics by hull subdivision: pieces whose control boxes
+ * don't overlap are discarded, the larger of each overlapping pair is halved,
+ * and pairs smaller than `tolPx` report their midpoint.
+ */
+export function cubicIntersections(a: Cubic, b: Cubic, tolPx = 0.25): { ta: number; tb: number; point: Vec2 }[] {
+  const out: { ta: number; tb: number; point: Vec2 }[] = [];
+  recurse(a, 0, 1, b, 0, 1, tolPx, 0, out);
+  // neighbouring leaves report the same crossing; keep one per tolerance cell
+  return out.filter((h, i) => out.findIndex(o => Math.hypot(o.point.x - h.point.x, o.point.y - h.point.y) <= 2 * tolPx) === i);
+}
+
+/**
+ * Every place the path crosses itself. Neighbouring segments always touch at
+ * their shared end, so contacts within `tolPx` of a joint don't count; a single
+ * segment is checked for a loop by testing its two halves the same way.
+ */
+export function selfIntersections(segments: Cubic[], tolPx = 0.25): Crossing[] {
+  const boxes = segments.map(hullBox);
+  const out: Crossing[] = [];
+  for (let i = 0; i < segments.length; i++) {
+    const [h0, h1] = splitCubic(segments[i], 0.5);
+    for (const x of cubicIntersections(h0, h1, tolPx)) {
+      if (nearJoint(x.point, h0.p3, tolPx)) continue;
+      out.push({ a: i, ta: x.ta / 2, b: i, tb: 0.5 + x.tb / 2, point: x.point });
+    }
+    for (let j = i + 1; j < segments.length; j++) {
+      if (!overlaps(boxes[i], boxes[j])) continue;
+      for (const x of cubicIntersections(segments[i], segments[j], tolPx)) {
+        if (j === i + 1 && nearJoint(x.point, segments[i].p3, tolPx)) continue;
+        out.push({ a: i, ta: x.ta, b: j, tb: x.tb, point: x.point });
+      }
+    }
+  }
+  return out;
+}
+
+function recurse(a: Cubic, a0: number, a1: number, b: Cubic, b0: number, b1: number, tol: number, depth: number,
+  out: { ta: number; tb: number; point: Vec2 }[]) {
+  const ba = hullBox(a), bb = hullBox(b);
+  if (!overlaps(ba, bb)) return;
+  const sizeA = Math.max(ba.maxX - ba.minX, ba.maxY - ba.minY);
+  const sizeB = Math.max(bb.maxX - bb.minX, bb.maxY - bb.minY);
+  if ((sizeA <= tol && sizeB <= tol) || depth >= MAX_DEPTH) {
+    const pa = cubicPoint(a, 0.5), pb = cubicPoint(b, 0.5);
+    out.push({ ta: (a0 + a1) / 2, tb: (b0 + b1) / 2, point: { x: (pa.x + pb.x) / 2, y: (pa.y + pb.y) / 2 } });
+    return;
+  }
+  if (sizeA >= sizeB) {
+    const [l, r] = splitCubic(a, 0.5), m = (a0 + a1) / 2;
+    recurse(l, a0, m, b, b0, b1, tol, depth + 1, out);
+    recurse(r, m, a1, b, b0, b1, tol, depth + 1, out);
+  } else {
+    const [l, r] = splitCubic(b, 0.5), m = (b0 + b1) / 2;
+    recurse(a, a0, a1, l, b0, m, tol, depth + 1, out);
+    recurse(a, a0, a1, r, m, b1, tol, depth + 1, out);
+  }
+}
+
+function overlaps(a: Box, b: Box): boolean {
+  return a.minX <= b.maxX && b.minX <= a.maxX && a.minY <= b.maxY && b.minY <= a.maxY;
+}
+
+function nearJoint(p: Vec2, joint: Vec2, tol: number): boolean {
+  return Math.hypot(p.x - joint.x, p.y - joint.y) <= 4 * tol;
+}
@@ -34,6 +34,15 @@ describe('ParamMap invariants', () => {
     expect(tNear).toBeGreaterThan(0)
     expect(tNear).toBeLessThan(86400)
   })
-})
-
 
+  it('multi-day span lets a time cross midnight', () => {
+    const span = 7 * 86400
+    const lut = buildParamLUT(curve, { span })
+    const mondayEvening = 20 * 3600
+    const tuesdayMorning = 86400 + 8 * 3600
+    const p = pointAtTime(lut, tuesdayMorning)
+    expect(pointAtTime(lut, mondayEvening).x).toBeLessThan(p.x)
+    expect(Math.abs(timeAtPoint(lut, p) - tuesdayMorning)).toBeLessThan(0.005 * span)
+    expect(timeAtPoint(lut, pointAtTime(lut, span))).toBeCloseTo(span, 0)
+  })
+})
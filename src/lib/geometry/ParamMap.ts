@@ -1,122 +1,178 @@
-import type { CurveControlPoint, CurveState, Vec2, Cubic, LUT, TimeSec } from "../types";
-import { add, mul, sub, cubicPoint } from "./Bezier";
-import { buildLUT, accumulateLengths, projectPointToCubic } from "./Bezier";
-
-/** Convert anchor controls to cubic segments via adaptive Catmull–Rom → Bézier. */
-export function controlsToSegments(controls: CurveControlPoint[], tension: number): Cubic[] {
-  const pts = controls.map(p => ({ x: p.x, y: p.y }));
-  if (pts.length < 2) return [];
-  // Duplicate endpoints for boundary conditions
-  const P: Vec2[] = [pts[0], ...pts, pts[pts.length - 1]];
-  // Cap tension to keep curves tame
-  const tight = clampRange(tension, 0.15, 0.85);
-  const segs: Cubic[] = [];
-  
-  for (let i = 0; i < pts.length - 1; i++) {
-    const p0 = P[i];
-    const p1 = P[i + 1];
-    const p2 = P[i + 2];
-    const p3 = P[i + 3];
-    const b0 = p1;
-    const b3 = p2;
-    
-    // Adaptive tension based on segment distance and angle
-    const d1 = Math.hypot(p2.x - p1.x, p2.y - p1.y); // Current segment length
-    const d0 = Math.hypot(p1.x - p0.x, p1.y - p0.y); // Previous segment
-    const d2 = Math.hypot(p3.x - p2.x, p3.y - p2.y); // Next segment
-    
-    // Calculate angle change at each endpoint
-    const v01 = { x: p1.x - p0.x, y: p1.y - p0.y };
-    const v12 = { x: p2.x - p1.x, y: p2.y - p1.y };
-    const v23 = { x: p3.x - p2.x, y: p3.y - p2.y };
-    
-    // Normalize vectors
-    const len01 = Math.hypot(v01.x, v01.y) || 1;
-    const len12 = Math.hypot(v12.x, v12.y) || 1;
-    const len23 = Math.hypot(v23.x, v23.y) || 1;
-    
-    const n01 = { x: v01.x / len01, y: v01.y / len01 };
-    const n12 = { x: v12.x / len12, y: v12.y / len12 };
-    const n23 = { x: v23.x / len23, y: v23.y / len23 };
-    
-    // Dot products to measure smoothness
-    const dot1 = n01.x * n12.x + n01.y * n12.y; // -1 to 1
-    const dot2 = n12.x * n23.x + n12.y * n23.y;
-    
-    // Adaptive strength: tighter on sharp turns, looser on smooth curves
-    const sharpness1 = 1 - Math.abs(dot1); // 0 = smooth, 1 = sharp turn
-    const sharpness2 = 1 - Math.abs(dot2);
-    
-    // Scale handle length based on segment length and smoothness
-    // Increased multipliers for smoother, more flowing curves
-    const scale1 = (0.4 + 0.6 * (1 - sharpness1)); // Range: 0.4 to 1.0
-    const scale2 = (0.4 + 0.6 * (1 - sharpness2));
-    
-    const s = (1 - clamp01(tight)) / 6;
-    const b1 = add(p1, mul(sub(p2, p0), s * scale1));
-    const b2 = sub(p2, mul(sub(p3, p1), s * scale2));
-    
-    segs.push({ p0: b0, p1: b1, p2: b2, p3: b3 });
-  }
-  return segs;
+import type { ArcTolerance, CurveControlPoint, CurveModelName, CurveState, Vec2, Cubic, DayModel, LUT, TimeSec, TimeWarp } from "../types";
+import { cubicPoint, cubicNormal, subCubic } from "./Bezier";
+import { buildLUT, accumulateLengths } from "./Bezier";
+import { buildSegmentIndex, nearestOnSegments } from "./SpatialIndex";
+import { minRate, warpTime, unwarpTime } from "./TimeWarp";
+import { arcLengthAt, paramAtLength, segmentStarts } from "./ArcLength";
+import { elapsedToWall, wallToElapsed } from "../dayModel";
+import { curveSegments } from "./CurveModel";
+
+/** Convert anchor controls to cubic segments with the named curve model. */
+export function controlsToSegments(controls: CurveControlPoint[], tension: number, model?: CurveModelName): Cubic[] {
+  return curveSegments(controls, tension, model);
 }
 
 export function clamp01(x: number) { return Math.min(1, Math.max(0, x)); }
 
-function clampRange(x: number, lo: number, hi: number) {
-  return Math.min(hi, Math.max(lo, x));
-}
+export type ParamOptions = {
+  model?: CurveModelName; // how controls become segments (default catmull-rom)
+  warp?: TimeWarp; // non-uniform time → arc-length layer (over elapsed seconds with a day model)
+  span?: number;   // seconds mapped onto the full length (multi-day); default one day
+  day?: DayModel;  // DST-aware days: 23/25-hour days get 23/25 hours of curve
+  arcLength?: "chord" | "exact"; // exact: quadrature lengths, Newton-inverted positions
+  tolerance?: ArcTolerance;      // exact mode only (default DEFAULT_ARC_TOLERANCE)
+};
+
+export const DEFAULT_ARC_TOLERANCE: Required<ArcTolerance> = { sec: 1, px: 0.05 };
 
 /** Build a global LUT for arc-length mapping over the whole path. */
-export function buildParamLUT(curve: CurveState): LUT {
-  const segments = controlsToSegments(curve.controls, curve.tension);
+export function buildParamLUT(curve: CurveState, opts: ParamOptions = {}): LUT {
+  const segments = controlsToSegments(curve.controls, curve.tension, opts.model);
+  return segmentsToLUT(segments, opts);
+}
+
+/** Build the arc-length LUT for already-computed cubic segments. */
+export function segmentsToLUT(segments: Cubic[], opts: ParamOptions = {}): LUT {
   const lutBase = buildLUT(segments, 0.75);
   const s = accumulateLengths(lutBase.pt);
-  return { ...lutBase, s, length: s[s.length - 1], segments } as LUT;
+  const span = opts.warp?.span ?? opts.day?.span ?? opts.span ?? 86400;
+  const index = buildSegmentIndex(segments);
+  const lut = { ...lutBase, s, length: s[s.length - 1], segments, warp: opts.warp, span, day: opts.day, index } as LUT;
+  if (opts.arcLength !== "exact" || !segments.length) return lut;
+  const segStart = segmentStarts(segments);
+  lut.length = segStart[segStart.length - 1];
+  // the seconds tolerance becomes px where the curve is slowest (least px per second)
+  const { sec, px } = { ...DEFAULT_ARC_TOLERANCE, ...opts.tolerance };
+  const pxPerSec = lut.length * (opts.warp ? minRate(opts.warp) : 1 / span);
+  lut.arc = { segStart, tolPx: Math.max(1e-9, Math.min(px, sec * pxPerSec)) };
+  return lut;
 }
 
-/** Map time (0..86400) to a point on the curve using arc-length. */
-export function pointAtTime(lut: LUT, time: TimeSec): Vec2 {
-  const tt = clamp01(time / 86400);
-  const targetS = tt * lut.length;
+/** Time → fraction of total arc length, through the day model and warp layer when present. */
+export function timeToFraction(lut: LUT, time: TimeSec): number {
+  return elapsedToFraction(lut, lut.day ? wallToElapsed(lut.day, time) : time);
+}
+
+/** Inverse of `timeToFraction`; both passes through a repeated DST hour read back as the same wall time. */
+export function fractionToTime(lut: LUT, frac: number): TimeSec {
+  const e = lut.warp ? unwarpTime(lut.warp, frac) : clamp01(frac) * lutSpan(lut);
+  return lut.day ? elapsedToWall(lut.day, e) : e;
+}
+
+/** Real elapsed seconds → fraction; what the now marker needs inside a repeated hour. */
+export function elapsedToFraction(lut: LUT, elapsed: number): number {
+  return lut.warp ? warpTime(lut.warp, elapsed) : clamp01(elapsed / lutSpan(lut));
+}
+
+/** Seconds mapped onto the whole curve (elapsed seconds with a day model). */
+export function lutSpan(lut: LUT): number {
+  return lut.warp?.span ?? lut.span ?? 86400;
+}
+
+/** Range of wall-clock TimeSec the curve covers: days·86400 whatever DST does. */
+export function timeSpan(lut: LUT): number {
+  return lut.day ? lut.day.days * 86400 : lutSpan(lut);
+}
+
+/** Locate the segment and local parameter at a given time. */
+export function paramAtTime(lut: LUT, time: TimeSec): { segIdx: number; localT: number } {
+  return paramAtFraction(lut, timeToFraction(lut, time));
+}
+
+function paramAtFraction(lut: LUT, frac: number): { segIdx: number; localT: number } {
+  const targetS = frac * lut.length;
+  if (lut.arc) {
+    const { segStart, tolPx } = lut.arc;
+    const segIdx = Math.max(0, Math.min(lut.segments.length - 1, upperBound(segStart, targetS) - 1));
+    const localT = paramAtLength(lut.segments[segIdx], targetS - segStart[segIdx], segStart[segIdx + 1] - segStart[segIdx], tolPx);
+    return { segIdx, localT };
+  }
   const idx = lowerBound(lut.s, targetS);
-  if (idx <= 0) return lut.pt[0];
-  if (idx >= lut.s.length) return lut.pt[lut.s.length - 1];
+  if (idx <= 0) return { segIdx: 0, localT: 0 };
+  if (idx >= lut.s.length) return { segIdx: lut.segments.length - 1, localT: 1 };
   const s0 = lut.s[idx - 1], s1 = lut.s[idx];
   const t0 = lut.t[idx - 1], t1 = lut.t[idx];
   const w = (targetS - s0) / Math.max(1e-6, (s1 - s0));
   const g = t0 + w * (t1 - t0);
-  // evaluate exactly, not via sampled pt, to reduce bias
   const segIdx = Math.min(lut.segments.length - 1, Math.floor(g * lut.segments.length));
-  const localT = g * lut.segments.length - segIdx;
-  return cubicPoint(lut.segments[segIdx], clamp01(localT));
+  return { segIdx, localT: clamp01(g * lut.segments.length - segIdx) };
+}
+
+/** Map time (0..span) to a point on the curve using arc-length. */
+export function pointAtTime(lut: LUT, time: TimeSec): Vec2 {
+  // evaluate exactly, not via sampled pt, to reduce bias
+  const { segIdx, localT } = paramAtTime(lut, time);
+  return cubicPoint(lut.segments[segIdx], localT);
+}
+
+/** Point plus unit normal at a time (ticks, now marker). */
+export function frameAtTime(lut: LUT, time: TimeSec): { p: Vec2; n: Vec2 } {
+  return frameAtFraction(lut, timeToFraction(lut, time));
+}
+
+/** Frame at real elapsed seconds; unlike wall-clock times these never repeat. */
+export function frameAtElapsed(lut: LUT, elapsed: number): { p: Vec2; n: Vec2 } {
+  return frameAtFraction(lut, elapsedToFraction(lut, elapsed));
+}
+
+function frameAtFraction(lut: LUT, frac: number): { p: Vec2; n: Vec2 } {
+  const { segIdx, localT } = paramAtFraction(lut, frac);
+  const seg = lut.segments[segIdx];
+  // keep away from degenerate end tangents (p0 === p1 on some models)
+  return { p: cubicPoint(seg, localT), n: cubicNormal(seg, Math.max(0.001, Math.min(0.999, localT))) };
+}
+
+/** Exact sub-path between two times, split at the cubic parameters (no seams). */
+export function segmentsBetween(lut: LUT, from: TimeSec, to: TimeSec): Cubic[] {
+  if (!lut.segments.length || to <= from) return [];
+  const a = paramAtTime(lut, from);
+  const b = paramAtTime(lut, to);
+  const out: Cubic[] = [];
+  for (let i = a.segIdx; i <= b.segIdx; i++) {
+    const t0 = i === a.segIdx ? a.localT : 0;
+    const t1 = i === b.segIdx ? b.localT : 1;
+    if (t1 > t0) out.push(subCubic(lut.segments[i], t0, t1));
+  }
+  return out;
 }
 
-/** Inverse: nearest curve point to screen-space p → approximate time. */
-export function timeAtPoint(lut: LUT, p: Vec2): TimeSec {
-  // coarse search on LUT, then refine in the matched segment
-  let best = 0; let bestD2 = Infinity; let bestSeg = 0; let bestLocalT = 0;
-  for (let i = 0; i < lut.pt.length; i++) {
-    const d2 = (lut.pt[i].x - p.x) ** 2 + (lut.pt[i].y - p.y) ** 2;
-    if (d2 < bestD2) { bestD2 = d2; best = i; bestSeg = lut.segIndex[i]; }
+export type PointQuery = {
+  near?: TimeSec;   // continuity: prefer the branch around this time (the previous drag frame)
+  slackPx?: number; // how much farther that branch may be than the global nearest (default 24)
+};
+
+/**
+ * Inverse: nearest curve point to screen-space p → approximate time. Where the
+ * path crosses itself both branches are equally near; with `near` the branch
+ * the drag is already on wins unless another is clearly closer.
+ */
+export function timeAtPoint(lut: LUT, p: Vec2, query: PointQuery = {}): TimeSec {
+  // branch-and-bound over the segment hierarchy, exact projection at the leaves
+  const index = lut.index ?? buildSegmentIndex(lut.segments);
+  let hit = nearestOnSegments(index, lut.segments, p);
+  if (!hit) return 0;
+  if (query.near !== undefined && lut.segments.length > 2) {
+    const from = paramAtTime(lut, query.near).segIdx;
+    const local = nearestOnSegments(index, lut.segments, p, (seg) => Math.abs(seg - from) <= 1);
+    const slack = query.slackPx ?? 24;
+    if (local && Math.sqrt(local.dist2) <= Math.sqrt(hit.dist2) + slack) hit = local;
+  }
+
+  if (lut.arc) {
+    const s = lut.arc.segStart[hit.seg] + arcLengthAt(lut.segments[hit.seg], hit.t);
+    return fractionToTime(lut, s / Math.max(1e-6, lut.length));
   }
-  // refine in its segment
-  const seg = lut.segments[bestSeg];
-  const { t, pt } = projectPointToCubic(seg, p, 25);
-  bestLocalT = t;
 
   // convert segment-local t to global t
-  const globalT = (bestSeg + bestLocalT) / lut.segments.length;
+  const globalT = (hit.seg + hit.t) / lut.segments.length;
 
   // map globalT → arc-length s via LUT linearization (for consistency with forward mapping)
-  // locate nearest bracketing indices around gT
-  let j = 0;
-  while (j < lut.t.length - 1 && lut.t[j + 1] < globalT) j++;
-  const j1 = Math.min(lut.t.length - 1, j + 1);
-  const w = (globalT - lut.t[j]) / Math.max(1e-6, (lut.t[j1] - lut.t[j]));
+  const j1 = Math.min(lut.t.length - 1, Math.max(1, lowerBound(lut.t, globalT)));
+  const j = j1 - 1;
+  const w = clamp01((globalT - lut.t[j]) / Math.max(1e-6, (lut.t[j1] - lut.t[j])));
   const s = lut.s[j] + w * (lut.s[j1] - lut.s[j]);
   const frac = s / Math.max(1e-6, lut.length);
-  return clamp01(frac) * 86400;
+  return fractionToTime(lut, frac);
 }
 
 function lowerBound(arr: number[], x: number) {
@@ -128,4 +184,13 @@ function lowerBound(arr: number[], x: number) {
   return lo;
 }
 
+function upperBound(arr: number[], x: number) {
+  let lo = 0, hi = arr.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (arr[mid] <= x) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
+
 
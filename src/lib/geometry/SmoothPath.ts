@@ -1,5 +1,4 @@
-type Pt = { x: number; y: number };
-type Cubic = { p0: Pt; p1: Pt; p2: Pt; p3: Pt };
+import type { Cubic, Vec2 as Pt } from "../types";
 
 /**
  * Calculate symmetric bezier arms for a node to ensure C1 continuity.
@@ -98,49 +97,3 @@ export function getSmoothSegments(points: Pt[], softness = 0.4): Cubic[] {
   
   return segments;
 }
-
-/**
- * Build smooth path with symmetric tangent-aligned arms.
- * Each node has arms that point 180° apart, ensuring smooth C1 continuity.
- */
-export function toSmoothCPath(points: Pt[], softness = 0.4): string {
-  if (points.length < 2) return "";
-  if (points.length === 2) {
-    return `M ${points[0].x} ${points[0].y} L ${points[1].x} ${points[1].y}`;
-  }
-  
-  let d = `M ${points[0].x} ${points[0].y}`;
-  
-  for (let i = 1; i < points.length; i++) {
-    const curr = points[i];
-    const prev = points[i - 1];
-    
-    if (i === 1) {
-      // First segment: only have outgoing arm from first node
-      if (i + 1 < points.length) {
-        const next = points[i + 1];
-        const { incomingArm } = calculateSymmetricArms(points[0], curr, next, softness);
-        d += ` C ${points[0].x} ${points[0].y}, ${incomingArm.x} ${incomingArm.y}, ${curr.x} ${curr.y}`;
-      } else {
-        d += ` L ${curr.x} ${curr.y}`;
-      }
-    } else if (i === points.length - 1) {
-      // Last segment: only have incoming arm to last node
-      const prevPrev = points[i - 2];
-      const { outgoingArm } = calculateSymmetricArms(prevPrev, prev, curr, softness);
-      d += ` C ${outgoingArm.x} ${outgoingArm.y}, ${curr.x} ${curr.y}, ${curr.x} ${curr.y}`;
-    } else {
-      // Middle segments: use symmetric arms
-      const prevPrev = points[i - 2];
-      const next = points[i + 1];
-      
-      const prevArms = calculateSymmetricArms(prevPrev, prev, curr, softness);
-      const currArms = calculateSymmetricArms(prev, curr, next, softness);
-      
-      // Cubic bezier: prev → prev.outgoingArm, curr.incomingArm → curr
-      d += ` C ${prevArms.outgoingArm.x} ${prevArms.outgoingArm.y}, ${currArms.incomingArm.x} ${currArms.incomingArm.y}, ${curr.x} ${curr.y}`;
-    }
-  }
-  
-  return d;
-}
@@ -0,0 +1,66 @@
+import { buildSegmentIndex, nearestOnSegments } from './SpatialIndex'
+import { buildParamLUT, pointAtTime, timeAtPoint } from './ParamMap'
+import { projectPointToCubic } from './Bezier'
+import type { CurveState } from '../types'
+
+// 200 segments: a serpentine folding back and forth down the page
+const serpentine: CurveState = {
+  controls: Array.from({ length: 201 }, (_, i) => ({ x: (i % 20 < 10 ? i % 10 : 10 - (i % 10)) * 40, y: Math.floor(i / 10) * 60 })),
+  tension: 0.5,
+}
+
+function random(seed: number) {
+  return () => { seed = (seed * 16807) % 2147483647; return seed / 2147483647 }
+}
+
+describe('segment index', () => {
+  const lut = buildParamLUT(serpentine)
+
+  it('finds the same nearest point as a full scan', () => {
+    const rnd = random(7)
+    for (let k = 0; k < 200; k++) {
+      const p = { x: rnd() * 460 - 30, y: rnd() * 1260 - 30 }
+      const hit = nearestOnSegments(lut.index!, lut.segments, p)!
+      const brute = Math.min(...lut.segments.map(c => projectPointToCubic(c, p, 25).dist2))
+      expect(hit.dist2).toBeCloseTo(brute, 6)
+    }
+  })
+
+  it('round-trips points on the curve to within a pixel', () => {
+    for (let t = 0; t <= 86400; t += 86400 / 97) {
+      const p = pointAtTime(lut, t)
+      const q = pointAtTime(lut, timeAtPoint(lut, p))
+      expect(Math.hypot(q.x - p.x, q.y - p.y)).toBeLessThan(1)
+    }
+  })
+
+  it('handles empty and single-segment curves', () => {
+    expect(nearestOnSegments(buildSegmentIndex([]), [], { x: 0, y: 0 })).toBeNull()
+    const one = buildParamLUT({ controls: [{ x: 0, y: 0 }, { x: 100, y: 0 }], tension: 0.5 })
+    expect(timeAtPoint(one, { x: 50, y: 20 })).toBeCloseTo(43200, -2)
+  })
+
+  it('projects onto a small share of the segments per query, not all of them', () => {
+    const rnd = random(11)
+    let projected = 0
+    const queries = 500
+    for (let k = 0; k < queries; k++) {
+      const p = { x: rnd() * 400, y: rnd() * 1200 }
+      // `accept` is asked once for every leaf the search reaches
+      nearestOnSegments(lut.index!, lut.segments, p, () => { projected++; return true })
+    }
+    expect(projected / queries).toBeLessThan(lut.segments.length / 10)
+  })
+
+  it('answers a query on a 200-segment curve in well under a millisecond', () => {
+    expect(lut.segments.length).toBe(200)
+    const rnd = random(13)
+    const points = Array.from({ length: 2000 }, () => ({ x: rnd() * 400, y: rnd() * 1200 }))
+    for (const p of points.slice(0, 200)) timeAtPoint(lut, p) // warm up the JIT
+    const start = performance.now()
+    for (const p of points) timeAtPoint(lut, p)
+    const mean = (performance.now() - start) / points.length
+    // typically a few microseconds; the bound only leaves room for a slow CI machine
+    expect(mean).toBeLessThan(1)
+  })
+})
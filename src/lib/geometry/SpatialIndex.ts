@@ -0,0 +1,81 @@
+import type { Box, Cubic, SegmentIndex, Vec2 } from "../types";
+import { projectPointToCubic } from "./Bezier";
+
+/**
+ * Nearest-point queries without scanning every LUT sample. Each cubic is boxed
+ * by its control polygon (the curve never leaves its convex hull); boxes are
+ * grouped by median splits, and a query descends nearer-child-first, pruning
+ * every box farther away than the best projection so far.
+ */
+export function buildSegmentIndex(segments: Cubic[]): SegmentIndex {
+  const index: SegmentIndex = { boxes: [], left: [], right: [], seg: [] };
+  const items = segments.map((c, i) => ({ i, box: hullBox(c) }));
+  if (items.length) build(index, items);
+  return index;
+}
+
+export type Nearest = { seg: number; t: number; pt: Vec2; dist2: number };
+
+/** Closest point on any (accepted) segment to `p`; null when there is none. */
+export function nearestOnSegments(index: SegmentIndex, segments: Cubic[], p: Vec2, accept?: (seg: number) => boolean): Nearest | null {
+  if (!index.boxes.length) return null;
+  let best: Nearest | null = null;
+  const stack = [0];
+  while (stack.length) {
+    const n = stack.pop()!;
+    if (best && boxDist2(index.boxes[n], p) >= best.dist2) continue;
+    const seg = index.seg[n];
+    if (seg >= 0) {
+      if (accept && !accept(seg)) continue;
+      const hit = projectPointToCubic(segments[seg], p, 25);
+      if (!best || hit.dist2 < best.dist2) best = { seg, ...hit };
+      continue;
+    }
+    const l = index.left[n], r = index.right[n];
+    // push the farther child first so the nearer one is searched first
+    if (boxDist2(index.boxes[l], p) < boxDist2(index.boxes[r], p)) stack.push(r, l);
+    else stack.push(l, r);
+  }
+  return best;
+}
+
+export function hullBox(c: Cubic): Box {
+  const xs = [c.p0.x, c.p1.x, c.p2.x, c.p3.x], ys = [c.p0.y, c.p1.y, c.p2.y, c.p3.y];
+  return { minX: Math.min(...xs), minY: Math.min(...ys), maxX: Math.max(...xs), maxY: Math.max(...ys) };
+}
+
+/** Squared distance from `p` to a box (0 inside). */
+export function boxDist2(b: Box, p: Vec2): number {
+  const dx = Math.max(b.minX - p.x, 0, p.x - b.maxX);
+  const dy = Math.max(b.minY - p.y, 0, p.y - b.maxY);
+  return dx * dx + dy * dy;
+}
+
+function build(index: SegmentIndex, items: { i: number; box: Box }[]): number {
+  const n = index.boxes.length;
+  index.boxes.push(union(items.map(it => it.box)));
+  index.left.push(-1);
+  index.right.push(-1);
+  index.seg.push(-1);
+  if (items.length === 1) {
+    index.seg[n] = items[0].i;
+    return n;
+  }
+  // split at the median centre along the wider axis
+  const b = index.boxes[n];
+  const key = b.maxX - b.minX >= b.maxY - b.minY
+    ? (it: { box: Box }) => it.box.minX + it.box.maxX
+    : (it: { box: Box }) => it.box.minY + it.box.maxY;
+  const sorted = [...items].sort((a, c) => key(a) - key(c));
+  const mid = sorted.length >> 1;
+  index.left[n] = build(index, sorted.slice(0, mid));
+  index.right[n] = build(index, sorted.slice(mid));
+  return n;
+}
+
+function union(boxes: Box[]): Box {
+  return boxes.reduce((a, b) => ({
+    minX: Math.min(a.minX, b.minX), minY: Math.min(a.minY, b.minY),
+    maxX: Math.max(a.maxX, b.maxX), maxY: Math.max(a.maxY, b.maxY),
+  }));
+}
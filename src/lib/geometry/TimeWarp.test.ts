@@ -0,0 +1,54 @@
+import { buildTimeWarp, densityFromNodes, uniformWarp, unwarpTime, warpTime } from './TimeWarp'
+import { buildParamLUT, pointAtTime, timeAtPoint } from './ParamMap'
+import type { CurveState } from '../types'
+
+describe('TimeWarp', () => {
+  const warp = buildTimeWarp([
+    { time: 0, density: 0.5 },
+    { time: 9 * 3600, density: 3 },
+    { time: 17 * 3600, density: 3 },
+    { time: 22 * 3600, density: 0.5 },
+  ])
+
+  it('uniform warp is the identity', () => {
+    const w = uniformWarp()
+    for (let t = 0; t <= 86400; t += 3600) expect(warpTime(w, t)).toBeCloseTo(t / 86400, 12)
+  })
+
+  it('is strictly monotone and spans [0,1]', () => {
+    expect(warpTime(warp, 0)).toBe(0)
+    expect(warpTime(warp, 86400)).toBeCloseTo(1, 12)
+    let last = -1
+    for (let t = 0; t <= 86400; t += 600) {
+      const f = warpTime(warp, t)
+      expect(f).toBeGreaterThan(last)
+      last = f
+    }
+  })
+
+  it('inverse is exact', () => {
+    for (let t = 0; t <= 86400; t += 777) {
+      expect(unwarpTime(warp, warpTime(warp, t))).toBeCloseTo(t, 6)
+    }
+  })
+
+  it('node clusters take more curve length', () => {
+    const w = buildTimeWarp(densityFromNodes([{ time: 12 * 3600 }, { time: 12.5 * 3600 }, { time: 13 * 3600 }]))
+    const busy = warpTime(w, 13 * 3600) - warpTime(w, 12 * 3600)
+    const quiet = warpTime(w, 3 * 3600) - warpTime(w, 2 * 3600)
+    expect(busy).toBeGreaterThan(2 * quiet)
+  })
+
+  it('keeps pointAtTime / timeAtPoint consistent through the warp', () => {
+    const curve: CurveState = {
+      controls: [{ x: 0, y: 0 }, { x: 100, y: 50 }, { x: 200, y: 0 }, { x: 300, y: 50 }],
+      tension: 0.5,
+    }
+    const lut = buildParamLUT(curve, { warp })
+    // compare in arc-length fraction: the sampled LUT, not the warp, bounds the error
+    for (let t = 3600; t < 86400; t += 3600 * 3) {
+      const back = timeAtPoint(lut, pointAtTime(lut, t))
+      expect(Math.abs(warpTime(warp, back) - warpTime(warp, t))).toBeLessThan(2e-3)
+    }
+  })
+})
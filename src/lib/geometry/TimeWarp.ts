@@ -0,0 +1,100 @@
+import type { DensityKey, NodeModel, TimeSec, TimeWarp } from "../types";
+
+const MIN_DENSITY = 0.05; // keeps the warp strictly monotone (invertible)
+
+/**
+ * Build a monotone warp from density keyframes.
+ * Density is linear between keys and held flat past the first/last key.
+ */
+export function buildTimeWarp(keys: DensityKey[], span = 86400): TimeWarp {
+  const sorted = keys
+    .filter(k => Number.isFinite(k.time) && Number.isFinite(k.density))
+    .map(k => ({ time: Math.min(span, Math.max(0, k.time)), density: Math.max(MIN_DENSITY, k.density) }))
+    .sort((a, b) => a.time - b.time);
+
+  const times: number[] = [];
+  const density: number[] = [];
+  for (const k of sorted) {
+    if (times.length && times[times.length - 1] === k.time) { density[density.length - 1] = k.density; continue; }
+    times.push(k.time);
+    density.push(k.density);
+  }
+  if (!times.length) { times.push(0); density.push(1); }
+  if (times[0] > 0) { times.unshift(0); density.unshift(density[0]); }
+  if (times[times.length - 1] < span) { times.push(span); density.push(density[density.length - 1]); }
+
+  const cum: number[] = [0];
+  for (let i = 1; i < times.length; i++) {
+    cum.push(cum[i - 1] + 0.5 * (density[i - 1] + density[i]) * (times[i] - times[i - 1]));
+  }
+  const total = cum[cum.length - 1] || 1;
+  return { times, density, cum: cum.map(c => c / total), span };
+}
+
+/** The identity warp: uniform density over `span`. */
+export function uniformWarp(span = 86400): TimeWarp {
+  return buildTimeWarp([], span);
+}
+
+/** Slowest rate (fraction of the curve per second) anywhere in the warp. */
+export function minRate(w: TimeWarp): number {
+  const h = w.times[1] - w.times[0];
+  const total = (0.5 * (w.density[0] + w.density[1]) * h) / Math.max(1e-12, w.cum[1]);
+  return Math.min(...w.density) / total;
+}
+
+/** Time → arc-length fraction in [0,1]. */
+export function warpTime(w: TimeWarp, time: TimeSec): number {
+  const t = Math.min(w.span, Math.max(0, time));
+  const i = Math.max(0, upperBound(w.times, t) - 1);
+  if (i >= w.times.length - 1) return 1;
+  const h = w.times[i + 1] - w.times[i];
+  const x = t - w.times[i];
+  const d0 = w.density[i], d1 = w.density[i + 1];
+  const area = d0 * x + (d1 - d0) * x * x / (2 * h);
+  return w.cum[i] + area * (w.cum[i + 1] - w.cum[i]) / (0.5 * (d0 + d1) * h);
+}
+
+/** Exact inverse of `warpTime`: arc-length fraction → time. */
+export function unwarpTime(w: TimeWarp, frac: number): TimeSec {
+  const f = Math.min(1, Math.max(0, frac));
+  const i = Math.min(w.times.length - 2, Math.max(0, upperBound(w.cum, f) - 1));
+  if (i < 0) return 0;
+  const h = w.times[i + 1] - w.times[i];
+  const d0 = w.density[i], d1 = w.density[i + 1];
+  // Unnormalised area to cover inside this interval
+  const c = (f - w.cum[i]) * (0.5 * (d0 + d1) * h) / Math.max(1e-12, w.cum[i + 1] - w.cum[i]);
+  // Solve a·x² + d0·x − c = 0 with a = (d1−d0)/2h; stable form avoids cancellation when a → 0
+  const a = (d1 - d0) / (2 * h);
+  const x = (2 * c) / (d0 + Math.sqrt(Math.max(0, d0 * d0 + 4 * a * c)));
+  return Math.min(w.times[i + 1], w.times[i] + x);
+}
+
+/**
+ * Derive density keys from node clustering: each node adds a Gaussian bump,
+ * so hours with many activities take more curve length.
+ */
+export function densityFromNodes(
+  nodes: Pick<NodeModel, "time">[],
+  { span = 86400, step = 1800, bandwidth = 5400, gain = 1.5 } = {}
+): DensityKey[] {
+  const keys: DensityKey[] = [];
+  for (let t = 0; t <= span; t += step) {
+    let d = 1;
+    for (const n of nodes) {
+      const z = (t - n.time) / bandwidth;
+      d += gain * Math.exp(-0.5 * z * z);
+    }
+    keys.push({ time: t, density: d });
+  }
+  return keys;
+}
+
+function upperBound(arr: number[], x: number) {
+  let lo = 0, hi = arr.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (arr[mid] <= x) lo = mid + 1; else hi = mid;
+  }
+  return lo;
+}
@@ -0,0 +1,133 @@
+import { createGestureRecognizer, trackPointer, type GestureHandlers, type PointerLike } from './gesture'
+
+const ev = (x: number, y: number, pointerId = 1, pointerType = 'mouse'): PointerLike =>
+  ({ clientX: x, clientY: y, pointerId, pointerType, altKey: false, shiftKey: false })
+
+function setup() {
+  const log: string[] = []
+  const handlers: GestureHandlers<string> = {
+    onTap: (_p, k) => log.push(`tap:${k}`),
+    onLongPress: (_p, k) => log.push(`long:${k}`),
+    onDragStart: (_p, k, kind) => log.push(`start:${k}:${kind}`),
+    onDragMove: (p) => log.push(`move:${p.x}`),
+    onDragEnd: (_p, k) => log.push(`end:${k}`),
+    onCancel: (k) => log.push(`cancel:${k}`),
+  }
+  return { log, g: createGestureRecognizer(() => handlers, { slopPx: 8, longPressMs: 500 }) }
+}
+
+describe('Gesture recognizer', () => {
+  beforeEach(() => { vi.useFakeTimers() })
+  afterEach(() => { vi.useRealTimers() })
+
+  it('recognises a tap the same way for every pointer type', () => {
+    for (const type of ['mouse', 'pen', 'touch']) {
+      const { log, g } = setup()
+      g.down(ev(0, 0, 1, type), 'a')
+      g.move(ev(3, 2, 1, type))
+      g.up(ev(3, 2, 1, type))
+      expect(log).toEqual(['tap:a'])
+    }
+  })
+
+  it('turns movement past the slop into a drag', () => {
+    const { log, g } = setup()
+    g.down(ev(0, 0), 'a')
+    g.move(ev(20, 0))
+    g.move(ev(30, 0))
+    g.up(ev(30, 0))
+    expect(log).toEqual(['start:a:drag', 'move:20', 'move:30', 'end:a'])
+  })
+
+  it('long-press then move becomes a slide', () => {
+    const { log, g } = setup()
+    g.down(ev(0, 0, 1, 'touch'), 'a')
+    vi.advanceTimersByTime(600)
+    g.move(ev(0, 40, 1, 'touch'))
+    g.up(ev(0, 40, 1, 'touch'))
+    expect(log).toEqual(['long:a', 'start:a:slide', 'move:0', 'end:a'])
+  })
+
+  it('releasing a long-press in place is neither tap nor drag', () => {
+    const { log, g } = setup()
+    g.down(ev(0, 0), 'a')
+    vi.advanceTimersByTime(600)
+    g.up(ev(0, 0))
+    expect(log).toEqual(['long:a'])
+  })
+
+  it('a second pointer before the gesture resolves cancels it', () => {
+    const { log, g } = setup()
+    g.down(ev(0, 0, 1, 'touch'), 'a')
+    expect(g.down(ev(50, 50, 2, 'touch'), 'b')).toBe(false)
+    g.up(ev(0, 0, 1, 'touch'))
+    vi.advanceTimersByTime(600)
+    expect(log).toEqual(['cancel:a'])
+  })
+
+  it('reads options from a getter on every press', () => {
+    const log: string[] = []
+    let options = { slopPx: 8 }
+    const g = createGestureRecognizer<string>(() => ({ onTap: (_p, k) => log.push(`tap:${k}`), onDragStart: (_p, k) => log.push(`start:${k}`) }), () => options)
+    g.down(ev(0, 0), 'a')
+    g.move(ev(5, 0))
+    g.up(ev(5, 0))
+    options = { slopPx: 4 }
+    g.down(ev(0, 0), 'b')
+    g.move(ev(5, 0))
+    g.up(ev(5, 0))
+    expect(log).toEqual(['tap:a', 'start:b'])
+  })
+
+  it('reports extra pointers during a drag and cancels on pointercancel', () => {
+    const seen: number[] = []
+    const log: string[] = []
+    const g = createGestureRecognizer<string>(() => ({
+      onDragMove: (p) => seen.push(p.extraPointers),
+      onCancel: (k) => log.push(`cancel:${k}`),
+    }))
+    g.down(ev(0, 0, 1, 'touch'), 'a')
+    g.move(ev(20, 0, 1, 'touch'))
+    g.down(ev(90, 90, 2, 'touch'), 'a')
+    g.move(ev(30, 0, 1, 'touch'))
+    g.cancel(ev(30, 0, 1, 'touch'))
+    expect(seen).toEqual([0, 1])
+    expect(log).toEqual(['cancel:a'])
+  })
+})
+
+describe('trackPointer', () => {
+  function setup() {
+    const log: string[] = []
+    const el = new EventTarget()
+    const fire = (type: string, pointerId: number, x = 0) =>
+      el.dispatchEvent(Object.assign(new Event(type), { clientX: x, clientY: 0, pointerId }))
+    trackPointer(el, 1, {
+      move: (e) => log.push(`move:${e.clientX}`),
+      end: (e) => log.push(`end:${e.clientX}`),
+      cancel: () => log.push('cancel'),
+    })
+    return { log, fire }
+  }
+
+  it('follows only its own pointer, then stops listening', () => {
+    const { log, fire } = setup()
+    fire('pointermove', 1, 10)
+    fire('pointermove', 2, 99)
+    fire('pointerup', 2, 99)
+    fire('pointerup', 1, 20)
+    fire('lostpointercapture', 1)
+    fire('pointermove', 1, 30)
+    expect(log).toEqual(['move:10', 'end:20'])
+  })
+
+  it('cancels on pointercancel or a capture lost before release', () => {
+    for (const type of ['pointercancel', 'lostpointercapture']) {
+      const { log, fire } = setup()
+      fire('pointermove', 1, 10)
+      fire(type, 1)
+      fire('pointerup', 1, 20)
+      expect(log).toEqual(['move:10', 'cancel'])
+    }
+  })
+})
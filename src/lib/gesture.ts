@@ -0,0 +1,178 @@
+/**
+ * Pointer gesture recognizer shared by every interactive element.
+ * Mouse, pen and touch all arrive as Pointer Events and resolve to the same
+ * gestures: tap, drag, long-press (optionally followed by a drag), or cancel.
+ */
+export type GesturePoint = {
+  x: number;               // client coordinates
+  y: number;
+  pointerId: number;
+  pointerType: string;     // "mouse" | "pen" | "touch"
+  altKey: boolean;
+  shiftKey: boolean;
+  extraPointers: number;   // other pointers currently down (e.g. a second finger)
+};
+
+export type GestureKind = "drag" | "slide"; // slide = drag that began with a long-press
+
+export type GestureHandlers<K> = {
+  onPress?: (p: GesturePoint, key: K) => void;
+  onTap?: (p: GesturePoint, key: K) => void;
+  onLongPress?: (p: GesturePoint, key: K) => void;
+  onDragStart?: (p: GesturePoint, key: K, kind: GestureKind) => void;
+  onDragMove?: (p: GesturePoint, key: K, kind: GestureKind) => void;
+  onDragEnd?: (p: GesturePoint, key: K, kind: GestureKind) => void;
+  onCancel?: (key: K) => void;   // pointercancel, or a second pointer before the gesture resolved
+};
+
+export type GestureOptions = {
+  slopPx?: number;       // movement before a press becomes a drag
+  longPressMs?: number;  // hold time for a long-press
+};
+
+export type PointerLike = {
+  clientX: number;
+  clientY: number;
+  pointerId: number;
+  pointerType: string;
+  altKey: boolean;
+  shiftKey: boolean;
+  isPrimary?: boolean;
+};
+
+type Phase = "idle" | "pressed" | "held" | "dragging";
+
+export type GestureRecognizer<K> = {
+  down(e: PointerLike, key: K): boolean;  // false when the pointer was not taken
+  move(e: PointerLike): void;
+  up(e: PointerLike): void;
+  cancel(e?: PointerLike): void;
+  readonly active: K | null;
+};
+
+/** `options` may be a getter, read on every press like `getHandlers`. */
+export function createGestureRecognizer<K>(
+  getHandlers: () => GestureHandlers<K>,
+  options: GestureOptions | (() => GestureOptions | undefined) = {}
+): GestureRecognizer<K> {
+  const getOptions = typeof options === "function" ? options : () => options;
+  let phase: Phase = "idle";
+  let key: K | null = null;
+  let pointerId = -1;
+  let origin = { x: 0, y: 0 };
+  let kind: GestureKind = "drag";
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const others = new Set<number>();
+
+  const point = (e: PointerLike): GesturePoint => ({
+    x: e.clientX, y: e.clientY, pointerId: e.pointerId, pointerType: e.pointerType,
+    altKey: e.altKey, shiftKey: e.shiftKey, extraPointers: others.size,
+  });
+
+  const clearTimer = () => { if (timer) { clearTimeout(timer); timer = null; } };
+
+  const reset = () => {
+    clearTimer();
+    phase = "idle";
+    key = null;
+    pointerId = -1;
+    kind = "drag";
+  };
+
+  return {
+    get active() { return key; },
+
+    down(e, k) {
+      if (phase !== "idle") {
+        if (e.pointerId !== pointerId) {
+          others.add(e.pointerId);
+          // a second finger before the gesture resolved means a multi-touch gesture, not ours
+          if (phase === "pressed" || phase === "held") this.cancel();
+        }
+        return false;
+      }
+      phase = "pressed";
+      key = k;
+      pointerId = e.pointerId;
+      origin = { x: e.clientX, y: e.clientY };
+      const p = point(e);
+      getHandlers().onPress?.(p, k);
+      timer = setTimeout(() => {
+        timer = null;
+        if (phase !== "pressed") return;
+        phase = "held";
+        kind = "slide";
+        getHandlers().onLongPress?.(p, k);
+      }, getOptions()?.longPressMs ?? 500);
+      return true;
+    },
+
+    move(e) {
+      if (e.pointerId !== pointerId || key === null) return;
+      const p = point(e);
+      if (phase === "pressed" || phase === "held") {
+        if (Math.hypot(e.clientX - origin.x, e.clientY - origin.y) < (getOptions()?.slopPx ?? 8)) return;
+        clearTimer();
+        phase = "dragging";
+        getHandlers().onDragStart?.(p, key, kind);
+      }
+      if (phase === "dragging") getHandlers().onDragMove?.(p, key, kind);
+    },
+
+    up(e) {
+      others.delete(e.pointerId);
+      if (e.pointerId !== pointerId || key === null) return;
+      const p = point(e);
+      const k = key;
+      const was = phase;
+      const wasKind = kind;
+      reset();
+      if (was === "dragging") getHandlers().onDragEnd?.(p, k, wasKind);
+      else if (was === "pressed") getHandlers().onTap?.(p, k);
+      // "held": the long-press already fired; releasing in place ends it quietly
+    },
+
+    cancel(e) {
+      if (e) others.delete(e.pointerId);
+      if (e && e.pointerId !== pointerId) return;
+      const k = key;
+      if (k === null) return;
+      reset();
+      getHandlers().onCancel?.(k);
+    },
+  };
+}
+
+/** What to do with a tracked pointer: each move, then its release or cancellation. */
+export type PointerTrack = {
+  move: (e: PointerLike) => void;
+  end: (e: PointerLike) => void;
+  cancel: () => void;            // pointercancel, or capture lost before release
+};
+
+type CaptureTarget = EventTarget & { setPointerCapture?(pointerId: number): void };
+
+// pointerup arrives before lostpointercapture, so a release is never read as a cancel
+const FINISH = ["pointerup", "pointercancel", "lostpointercapture"];
+
+/**
+ * Capture `pointerId` on `target` and follow that pointer alone until it is
+ * released or cancelled. The listeners sit on the captured element and check
+ * the id, so a second finger can neither move nor end the gesture.
+ */
+export function trackPointer(target: CaptureTarget, pointerId: number, track: PointerTrack): void {
+  target.setPointerCapture?.(pointerId);
+  const mine = (ev: Event) => (ev as unknown as PointerLike).pointerId === pointerId;
+  const move = (ev: Event) => {
+    if (mine(ev)) track.move(ev as unknown as PointerLike);
+  };
+  const finish = (ev: Event) => {
+    if (!mine(ev)) return;
+    target.removeEventListener("pointermove", move);
+    for (const type of FINISH) target.removeEventListener(type, finish);
+    if (ev.type === "pointerup") track.end(ev as unknown as PointerLike);
+    else track.cancel();
+  };
+  target.addEventListener("pointermove", move);
+  for (const type of FINISH) target.addEventListener(type, finish);
+}
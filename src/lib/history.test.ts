@@ -0,0 +1,55 @@
+import { HISTORY_LIMIT, canRedo, canUndo, cancelGesture, commit, createHistory, endGesture, redo, undo, updateGesture } from './history'
+
+describe('History', () => {
+  it('merges a continuous gesture into one undo step', () => {
+    let h = createHistory(0)
+    for (let x = 1; x <= 30; x++) h = updateGesture(h, x)
+    h = endGesture(h)
+    expect(h.present).toBe(30)
+    expect(h.past).toEqual([0])
+    h = undo(h)
+    expect(h.present).toBe(0)
+    expect(canUndo(h)).toBe(false)
+    h = redo(h)
+    expect(h.present).toBe(30)
+    expect(canRedo(h)).toBe(false)
+  })
+
+  it('a gesture that returns to its start adds no step', () => {
+    let h = createHistory(5)
+    h = updateGesture(updateGesture(h, 6), 5)
+    expect(endGesture(h).past).toEqual([])
+  })
+
+  it('new edits clear the redo stack', () => {
+    let h = commit(commit(createHistory('a'), 'b'), 'c')
+    h = undo(h)
+    expect(h.future).toEqual(['c'])
+    h = commit(h, 'd')
+    expect(h.future).toEqual([])
+    expect(h.past).toEqual(['a', 'b'])
+  })
+
+  it('undo mid-gesture closes the gesture first', () => {
+    let h = updateGesture(createHistory(1), 2)
+    h = undo(h)
+    expect(h.present).toBe(1)
+    expect(h.future).toEqual([2])
+    expect(h.pending).toBeNull()
+  })
+
+  it('cancelling a gesture restores its start without a step', () => {
+    let h = updateGesture(updateGesture(createHistory(1), 2), 3)
+    h = cancelGesture(h)
+    expect(h.present).toBe(1)
+    expect(h.past).toEqual([])
+    expect(h.pending).toBeNull()
+  })
+
+  it('caps the past stack', () => {
+    let h = createHistory(0)
+    for (let i = 1; i <= HISTORY_LIMIT + 10; i++) h = commit(h, i)
+    expect(h.past).toHaveLength(HISTORY_LIMIT)
+    expect(h.past[0]).toBe(10)
+  })
+})
@@ -0,0 +1,65 @@
+/** Undo/redo stacks over immutable snapshots; gestures coalesce into one step. */
+export type History<T> = {
+  past: T[];          // oldest first
+  present: T;
+  future: T[];        // next redo first
+  pending: T | null;  // snapshot taken when the current gesture began
+};
+
+export const HISTORY_LIMIT = 50;
+
+export function createHistory<T>(present: T, past: T[] = [], future: T[] = []): History<T> {
+  return { past: past.slice(-HISTORY_LIMIT), present, future: future.slice(0, HISTORY_LIMIT), pending: null };
+}
+
+/** A discrete edit: one undoable step. Closes any open gesture first. */
+export function commit<T>(h: History<T>, next: T, equals: (a: T, b: T) => boolean = Object.is): History<T> {
+  const base = endGesture(h, equals);
+  if (equals(base.present, next)) return base;
+  return { past: pushCapped(base.past, base.present), present: next, future: [], pending: null };
+}
+
+/** A continuous edit (drag frame): replaces the present without growing the stack. */
+export function updateGesture<T>(h: History<T>, next: T): History<T> {
+  return { ...h, present: next, pending: h.pending ?? h.present };
+}
+
+/** Close the gesture: everything since it began becomes a single step. */
+export function endGesture<T>(h: History<T>, equals: (a: T, b: T) => boolean = Object.is): History<T> {
+  if (h.pending === null) return h;
+  if (equals(h.pending, h.present)) return { ...h, pending: null };
+  return { past: pushCapped(h.past, h.pending), present: h.present, future: [], pending: null };
+}
+
+/** Abandon the gesture: restore the snapshot taken when it began. */
+export function cancelGesture<T>(h: History<T>): History<T> {
+  if (h.pending === null) return h;
+  return { ...h, present: h.pending, pending: null };
+}
+
+export function undo<T>(h: History<T>): History<T> {
+  const base = endGesture(h);
+  if (!base.past.length) return base;
+  const prev = base.past[base.past.length - 1];
+  return { past: base.past.slice(0, -1), present: prev, future: [base.present, ...base.future], pending: null };
+}
+
+export function redo<T>(h: History<T>): History<T> {
+  const base = endGesture(h);
+  if (!base.future.length) return base;
+  const [next, ...rest] = base.future;
+  return { past: pushCapped(base.past, base.present), present: next, future: rest, pending: null };
+}
+
+export function canUndo<T>(h: History<T>): boolean {
+  return h.past.length > 0 || (h.pending !== null && h.pending !== h.present);
+}
+
+export function canRedo<T>(h: History<T>): boolean {
+  return h.future.length > 0;
+}
+
+function pushCapped<T>(arr: T[], item: T): T[] {
+  const next = [...arr, item];
+  return next.length > HISTORY_LIMIT ? next.slice(next.length - HISTORY_LIMIT) : next;
+}
@@ -0,0 +1,51 @@
+import { FALLBACK_ICON, ICONS, isIconURL, nodeFace, resolveIcon } from './icons'
+
+describe('resolveIcon', () => {
+  it('draws the built-in tokens, whatever their case', () => {
+    for (const token of ['sun', 'briefcase', 'utensils', 'moon']) {
+      expect(resolveIcon(token)).toEqual({ kind: 'symbol', def: ICONS[token] })
+    }
+    expect(resolveIcon(' Moon ')).toEqual({ kind: 'symbol', def: ICONS.moon })
+  })
+
+  it('loads URLs as images and marks unknown tokens', () => {
+    expect(resolveIcon('https://example.com/run.png')).toEqual({ kind: 'url', href: 'https://example.com/run.png' })
+    expect(resolveIcon('/icons/gym.svg')).toEqual({ kind: 'url', href: '/icons/gym.svg' })
+    expect(resolveIcon('rocket')).toEqual({ kind: 'symbol', def: FALLBACK_ICON })
+    expect(resolveIcon('')).toBeNull()
+    expect(isIconURL('data:image/png;base64,AAAA')).toBe(true)
+    expect(isIconURL('sun')).toBe(false)
+  })
+
+  it('lets the host claim any icon first', () => {
+    const gym = { paths: ['M2 12h20'] }
+    const host = (icon: string) => (icon === 'gym' ? gym : icon === 'sun' ? 'https://cdn.test/sun.svg' : icon === 'moon' ? null : undefined)
+    expect(resolveIcon('gym', host)).toEqual({ kind: 'symbol', def: gym })
+    expect(resolveIcon('sun', host)).toEqual({ kind: 'url', href: 'https://cdn.test/sun.svg' })
+    expect(resolveIcon('moon', host)).toBeNull()
+    // undefined defers to the registry
+    expect(resolveIcon('utensils', host)).toEqual({ kind: 'symbol', def: ICONS.utensils })
+  })
+})
+
+describe('nodeFace', () => {
+  it('stacks icon over a short label inside the circle', () => {
+    const face = nodeFace('Lunch', 45, 16, true)
+    expect(face.label.inside).toBe(true)
+    expect(face.icon!.y).toBeLessThan(0)
+    expect(face.label.y).toBeGreaterThan(face.icon!.y + face.icon!.size / 2)
+    expect(face.label.y + 8).toBeLessThan(45)
+  })
+
+  it('moves a long label below the circle and centres the icon', () => {
+    const face = nodeFace('Commute home', 45, 16, true)
+    expect(face.label.inside).toBe(false)
+    expect(face.label.y).toBeGreaterThan(45)
+    expect(face.icon).toEqual({ y: 0, size: 45 })
+  })
+
+  it('keeps a label alone in the middle when it fits', () => {
+    expect(nodeFace('Gym', 30, 14, false)).toEqual({ icon: null, label: { y: 0, inside: true } })
+    expect(nodeFace('Deep work block', 30, 14, false).label.inside).toBe(false)
+  })
+})
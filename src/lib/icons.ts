@@ -0,0 +1,93 @@
+import type { IconDef, IconResolver } from "./types";
+
+/**
+ * Node icons. `NodeModel.icon` holds a token ("sun") or an image URL; tokens
+ * resolve to line drawings on a 24×24 grid, stroked in the node's ink, and
+ * URLs load as images. A host can claim any icon first through an
+ * `IconResolver`.
+ */
+export type ResolvedIcon =
+  | { kind: "symbol"; def: IconDef }
+  | { kind: "url"; href: string };
+
+export const ICONS: Readonly<Record<string, IconDef>> = {
+  sun: {
+    paths: [
+      "M12 8a4 4 0 1 0 0 8a4 4 0 1 0 0-8z",
+      "M12 2v2M12 20v2M4.93 4.93l1.41 1.41M17.66 17.66l1.41 1.41M2 12h2M20 12h2M6.34 17.66l-1.41 1.41M19.07 4.93l-1.41 1.41",
+    ],
+  },
+  briefcase: {
+    paths: [
+      "M4 7h16a2 2 0 0 1 2 2v9a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V9a2 2 0 0 1 2-2z",
+      "M16 20V5a2 2 0 0 0-2-2h-4a2 2 0 0 0-2 2v15",
+    ],
+  },
+  utensils: {
+    paths: [
+      "M3 2v7a2 2 0 0 0 2 2h4a2 2 0 0 0 2-2V2",
+      "M7 2v20",
+      "M21 15V2a5 5 0 0 0-5 5v6a2 2 0 0 0 2 2h3zm0 0v7",
+    ],
+  },
+  moon: {
+    paths: ["M12 3a6 6 0 0 0 9 9a9 9 0 1 1-9-9z"],
+  },
+};
+
+/** Stands in for unknown tokens and images that fail to load. */
+export const FALLBACK_ICON: IconDef = {
+  paths: ["M12 7a5 5 0 1 0 0 10a5 5 0 1 0 0-10z"],
+};
+
+const URL_LIKE = /^(https?:|data:image\/|blob:|\/|\.\.?\/)/i;
+
+export function isIconURL(icon: string): boolean {
+  return URL_LIKE.test(icon.trim());
+}
+
+/** What to draw for `icon`; null when the node has none (or the host hides it). */
+export function resolveIcon(icon: string, resolver?: IconResolver): ResolvedIcon | null {
+  const token = icon.trim();
+  if (!token) return null;
+  const custom = resolver?.(token);
+  if (custom === null) return null;
+  if (typeof custom === "string") return custom ? { kind: "url", href: custom } : null;
+  if (custom) return { kind: "symbol", def: custom };
+  if (isIconURL(token)) return { kind: "url", href: token };
+  return { kind: "symbol", def: ICONS[token.toLowerCase()] ?? FALLBACK_ICON };
+}
+
+export type NodeFace = {
+  icon: { y: number; size: number } | null;  // centre offset and side length
+  label: { y: number; inside: boolean };      // centre offset of the label line
+};
+
+const GLYPH_WIDTH = 0.6; // average advance per character, in ems
+const INSET = 0.9;       // share of the chord a label may use
+
+/**
+ * Where a node of `radius` draws its icon and label. Both share the circle when
+ * the label fits the chord it sits on; otherwise the label moves below the
+ * circle and the icon takes the middle.
+ */
+export function nodeFace(label: string, radius: number, fontSize: number, hasIcon: boolean): NodeFace {
+  const outside = { y: radius + 4 + fontSize / 2, inside: false };
+  if (!label) return { icon: hasIcon ? { y: 0, size: radius } : null, label: { y: 0, inside: true } };
+  if (!hasIcon) {
+    return { icon: null, label: fits(label, radius, fontSize, 0) ? { y: 0, inside: true } : outside };
+  }
+  const size = radius * 0.8;
+  const iconY = -radius * 0.25;
+  const labelY = iconY + size / 2 + fontSize * 0.2 + fontSize / 2;
+  if (fits(label, radius, fontSize, labelY)) return { icon: { y: iconY, size }, label: { y: labelY, inside: true } };
+  return { icon: { y: 0, size: radius }, label: outside };
+}
+
+/** Whether a line of `label` centred `y` from the middle stays within the circle. */
+function fits(label: string, radius: number, fontSize: number, y: number): boolean {
+  const edge = Math.abs(y) + fontSize / 2;
+  if (edge >= radius) return false;
+  const chord = 2 * Math.sqrt(radius * radius - edge * edge) * INSET;
+  return Array.from(label).length * fontSize * GLYPH_WIDTH <= chord;
+}
@@ -0,0 +1,115 @@
+import { todayIn } from './dayModel'
+import { exportICS, importICS } from './ics'
+import { localISODate } from './time'
+import type { NodeModel } from './types'
+
+const nodes: NodeModel[] = [
+  { id: 'wake', time: 6 * 3600, label: 'Wake', icon: 'sun', color: '#f59e0b', role: 'start' },
+  { id: 'work', time: 9 * 3600, end: 17 * 3600, label: 'Work, deep; focus', icon: 'briefcase', color: '#3b82f6' },
+]
+const now = new Date(Date.UTC(2026, 9, 19, 12))
+const vevent = (lines: string[]) => ['BEGIN:VCALENDAR', 'VERSION:2.0', 'BEGIN:VEVENT', ...lines, 'END:VEVENT', 'END:VCALENDAR'].join('\r\n')
+
+describe('ICS export', () => {
+  it('writes daily-repeating VEVENTs with X-properties', () => {
+    const ics = exportICS(nodes, { date: '2026-10-19', now })
+    expect(ics).toContain('DTSTART:20261019T060000\r\n')
+    expect(ics).toContain('DTEND:20261019T170000\r\n')
+    expect(ics).toContain('RRULE:FREQ=DAILY\r\n')
+    expect(ics).toContain(String.raw`SUMMARY:Work\, deep\; focus`)
+    expect(ics).toContain('X-SERPENTIME-COLOR:#3b82f6\r\n')
+    expect(ics).toContain('X-SERPENTIME-ROLE:start\r\n')
+    expect(ics.split('\r\n').every(l => new TextEncoder().encode(l).length <= 75)).toBe(true)
+  })
+
+  it('writes TZID when a zone is given and repeats multi-day routines every N days', () => {
+    const ics = exportICS(nodes, { date: '2026-10-19', tz: 'Europe/Lisbon', days: 7, now })
+    expect(ics).toContain('DTSTART;TZID=Europe/Lisbon:20261019T060000')
+    expect(ics).toContain('RRULE:FREQ=DAILY;INTERVAL=7')
+  })
+
+  it('describes every TZID it uses in a VTIMEZONE', () => {
+    const lisbon = exportICS(nodes, { date: '2026-10-19', tz: 'Europe/Lisbon', now }).split('\r\n')
+    const zone = lisbon.slice(lisbon.indexOf('BEGIN:VTIMEZONE'), lisbon.indexOf('END:VTIMEZONE') + 1)
+    expect(zone.slice(0, 2)).toEqual(['BEGIN:VTIMEZONE', 'TZID:Europe/Lisbon'])
+    expect(lisbon.indexOf('END:VTIMEZONE')).toBeLessThan(lisbon.indexOf('BEGIN:VEVENT'))
+    // EU rules: forward at 01:00 UTC on the last Sunday of March, back on the last Sunday of October
+    expect(zone).toEqual(expect.arrayContaining([
+      'BEGIN:DAYLIGHT', 'DTSTART:20250330T010000', 'TZOFFSETFROM:+0000', 'TZOFFSETTO:+0100', 'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=-1SU',
+      'BEGIN:STANDARD', 'DTSTART:20251026T020000', 'TZOFFSETFROM:+0100', 'TZOFFSETTO:+0000', 'RRULE:FREQ=YEARLY;BYMONTH=10;BYDAY=-1SU',
+    ]))
+
+    const kolkata = exportICS(nodes, { date: '2026-10-19', tz: 'Asia/Kolkata', now })
+    expect(kolkata).toContain('BEGIN:STANDARD\r\nDTSTART:19700101T000000\r\nTZOFFSETFROM:+0530\r\nTZOFFSETTO:+0530\r\nEND:STANDARD')
+
+    const floating = exportICS(nodes, { date: '2026-10-19', tz: 'Mars/Olympus', now })
+    expect(floating).not.toContain('TZID')
+    expect(floating).not.toContain('VTIMEZONE')
+  })
+})
+
+describe('ICS import', () => {
+  it('round-trips exported nodes', () => {
+    const ics = exportICS(nodes, { date: '2026-10-19', now })
+    const { nodes: out, issues } = importICS(ics, { date: '2026-10-25', tz: 'Europe/Lisbon' })
+    expect(issues).toEqual([])
+    expect(out).toEqual(nodes)
+  })
+
+  it('converts UTC and other zones into the routine zone', () => {
+    const ics = [
+      vevent(['UID:a', 'DTSTART:20261019T130000Z', 'SUMMARY:Call']),
+      vevent(['UID:b', 'DTSTART;TZID=America/New_York:20261019T090000', 'DURATION:PT30M', 'SUMMARY:Standup']),
+    ].join('\r\n')
+    const { nodes: out } = importICS(ics, { date: '2026-10-19', tz: 'Europe/Lisbon' })
+    expect(out.map(n => [n.label, n.time, n.end])).toEqual([
+      ['Call', 14 * 3600, undefined],            // 13:00Z is 14:00 WEST
+      ['Standup', 14 * 3600, 14.5 * 3600],       // 09:00 EDT is 14:00 WEST
+    ])
+  })
+
+  it("lands UTC events on the routine's day when its zone isn't the device's", () => {
+    vi.stubEnv('TZ', 'America/Los_Angeles')
+    try {
+      // 20:00Z: still the 19th on the device, already the 20th in Tokyo
+      const at = new Date(Date.UTC(2026, 9, 19, 20))
+      const date = todayIn('Asia/Tokyo', at)
+      expect([localISODate(at), date]).toEqual(['2026-10-19', '2026-10-20'])
+      const ics = [
+        vevent(['UID:a', 'DTSTART:20261020T000000Z', 'SUMMARY:Standup']),
+        vevent(['UID:b', 'DTSTART:20261020T083000Z', 'SUMMARY:Lunch']),
+      ].join('\r\n')
+      const { nodes: out } = importICS(ics, { date, tz: 'Asia/Tokyo' })
+      expect(out.map(n => [n.label, n.time])).toEqual([
+        ['Standup', 9 * 3600],                     // 00:00Z is 09:00 JST, not 17:00 PDT the day before
+        ['Lunch', 17.5 * 3600],
+      ])
+    } finally {
+      vi.unstubAllEnvs()
+    }
+  })
+
+  it('reports all-day events, or imports them as whole-day spans on request', () => {
+    const ics = vevent(['UID:h', 'DTSTART;VALUE=DATE:20261019', 'SUMMARY:Holiday'])
+    const skipped = importICS(ics, { date: '2026-10-19', tz: 'UTC' })
+    expect(skipped.nodes).toEqual([])
+    expect(skipped.issues[0].message).toContain('all-day')
+    const spanned = importICS(ics, { date: '2026-10-19', tz: 'UTC', allDay: 'span' })
+    expect(spanned.nodes[0]).toMatchObject({ time: 0, end: 86400 })
+  })
+
+  it('takes only the chosen day, expanding recurrences', () => {
+    const ics = [
+      vevent(['UID:gym', 'DTSTART:20261001T070000', 'RRULE:FREQ=WEEKLY;BYDAY=MO,WE', 'SUMMARY:Gym']),
+      vevent(['UID:once', 'DTSTART:20261020T070000', 'SUMMARY:Dentist']),
+    ].join('\r\n')
+    expect(importICS(ics, { date: '2026-10-19', tz: 'UTC' }).nodes.map(n => n.label)).toEqual(['Gym']) // a Monday
+    expect(importICS(ics, { date: '2026-10-20', tz: 'UTC' }).nodes.map(n => n.label)).toEqual(['Dentist'])
+  })
+
+  it('reports unknown zones instead of guessing silently', () => {
+    const { nodes: out, issues } = importICS(vevent(['UID:x', 'DTSTART;TZID=Mars/Olympus:20261019T080000']), { date: '2026-10-19', tz: 'UTC' })
+    expect(out[0].time).toBe(8 * 3600)
+    expect(issues.map(i => i.message)).toContain('unknown timezone "Mars/Olympus"; read as local time')
+  })
+})
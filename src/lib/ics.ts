@@ -0,0 +1,368 @@
+import type { NodeModel, NodeRole, TimeSec } from "./types";
+import type { LoadIssue } from "./serialization";
+import { validateNodes } from "./serialization";
+import { NODE_ROLES } from "./roles";
+import { hasSpan } from "./spans";
+import { DAY_SEC, isISODate, localISODate, spanOf } from "./time";
+import { isTimeZone, localToInstant, zoneOffset } from "./dayModel";
+
+/**
+ * iCalendar (RFC 5545) codec for routine nodes.
+ * Export writes one VEVENT per node, repeating daily (or every `days` days);
+ * label, colour, icon and role travel in X-SERPENTIME-* properties.
+ * Import reads the events that fall on a chosen date and maps them onto TimeSec offsets.
+ */
+export type IcsExportOptions = {
+  date?: string | null;   // ISO date of day 0; today when absent
+  days?: number;          // routine length; the RRULE repeats every `days` days
+  tz?: string | null;     // IANA zone written as TZID (with its VTIMEZONE); floating local time when absent or unknown
+  repeat?: boolean;       // add the RRULE (default true)
+  now?: Date;             // DTSTAMP
+};
+
+export type IcsImportOptions = {
+  date: string;           // ISO date (in `tz`) that becomes day 0
+  days?: number;          // import this many consecutive days (default 1)
+  tz?: string;            // zone the routine lives in; the runtime's zone when absent
+  allDay?: "skip" | "span"; // all-day events: report and skip (default), or import as whole-day spans
+};
+
+export type IcsImportResult = { nodes: NodeModel[]; issues: LoadIssue[] };
+
+const PRODID = "-//Serpentime//Routine//EN";
+const X = "X-SERPENTIME-";
+
+export function exportICS(nodes: NodeModel[], opts: IcsExportOptions = {}): string {
+  const now = opts.now ?? new Date();
+  const date = opts.date && isISODate(opts.date) ? opts.date : localISODate(now);
+  const days = Math.max(1, Math.round(opts.days ?? 1));
+  const tz = isTimeZone(opts.tz) ? opts.tz : null;
+  const tzParam = tz ? `;TZID=${tz}` : "";
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", `PRODID:${PRODID}`, "CALSCALE:GREGORIAN"];
+  // RFC 5545 wants a VTIMEZONE for every TZID a file uses
+  if (tz) lines.push(`X-WR-TIMEZONE:${tz}`, ...vtimezone(tz, +date.slice(0, 4)));
+  for (const n of nodes) {
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:${escapeText(n.id)}@serpentime`,
+      `DTSTAMP:${formatUTC(now)}`,
+      `DTSTART${tzParam}:${formatLocal(date, n.time)}`,
+    );
+    if (hasSpan(n)) lines.push(`DTEND${tzParam}:${formatLocal(date, n.end)}`);
+    if (opts.repeat ?? true) lines.push(days === 1 ? "RRULE:FREQ=DAILY" : `RRULE:FREQ=DAILY;INTERVAL=${days}`);
+    lines.push(`SUMMARY:${escapeText(n.label)}`, `${X}ID:${escapeText(n.id)}`, `${X}COLOR:${escapeText(n.color)}`);
+    if (n.icon) lines.push(`${X}ICON:${escapeText(n.icon)}`);
+    if (n.role && n.role !== "free") lines.push(`${X}ROLE:${n.role}`);
+    lines.push("END:VEVENT");
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+type Transition = { at: number; from: number; to: number }; // epoch ms; offsets in ms
+
+/**
+ * VTIMEZONE lines for `tz` around `year`. Observances start the year before so
+ * the routine's first day is covered; when each change falls on the same
+ * weekday rule year after year it repeats by RRULE, else every change in the
+ * three years is listed.
+ */
+function vtimezone(tz: string, year: number): string[] {
+  const years = [year - 1, year, year + 1].map((y) => transitionsIn(tz, y));
+  const out = ["BEGIN:VTIMEZONE", `TZID:${tz}`];
+  if (!years.some((t) => t.length)) {
+    const off = formatOffset(zoneOffset(Date.UTC(year, 0, 1), tz));
+    out.push("BEGIN:STANDARD", "DTSTART:19700101T000000", `TZOFFSETFROM:${off}`, `TZOFFSETTO:${off}`, "END:STANDARD");
+  } else {
+    // the same rule, local time and offsets every year
+    const rules = years.map((t) => t.map((x) => `${yearlyRule(x)}@${new Date(x.at + x.from).toISOString().slice(11, 19)}/${x.from}/${x.to}`));
+    const repeats = rules[0].length > 0 && rules.every((r) => r.length === rules[0].length && r.every((x, i) => x === rules[0][i]));
+    for (const t of repeats ? years[0] : years.flat()) out.push(...observance(t, repeats ? yearlyRule(t) : null));
+  }
+  out.push("END:VTIMEZONE");
+  return out;
+}
+
+function observance(t: Transition, rrule: string | null): string[] {
+  const kind = t.to > t.from ? "DAYLIGHT" : "STANDARD";
+  return [
+    `BEGIN:${kind}`,
+    // local time just before the change, on the old offset
+    `DTSTART:${new Date(t.at + t.from).toISOString().replace(/[-:]/g, "").slice(0, 15)}`,
+    `TZOFFSETFROM:${formatOffset(t.from)}`,
+    `TZOFFSETTO:${formatOffset(t.to)}`,
+    ...(rrule ? [rrule] : []),
+    `END:${kind}`,
+  ];
+}
+
+/** The RRULE that lands on `t`'s date every year: month and nth (or last) weekday; DTSTART carries the time. */
+function yearlyRule(t: Transition): string {
+  const wall = new Date(t.at + t.from);
+  const day = wall.getUTCDate();
+  const monthDays = new Date(Date.UTC(wall.getUTCFullYear(), wall.getUTCMonth() + 1, 0)).getUTCDate();
+  const nth = day + 7 > monthDays ? -1 : Math.ceil(day / 7);
+  const weekday = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"][wall.getUTCDay()];
+  return `RRULE:FREQ=YEARLY;BYMONTH=${wall.getUTCMonth() + 1};BYDAY=${nth}${weekday}`;
+}
+
+/** Offset changes in `tz` during `year`, found day by day and then to the minute. */
+function transitionsIn(tz: string, year: number): Transition[] {
+  const out: Transition[] = [];
+  const end = Date.UTC(year + 1, 0, 1);
+  let t = Date.UTC(year, 0, 1);
+  let off = zoneOffset(t, tz);
+  while (t < end) {
+    const next = Math.min(t + 86400000, end);
+    const nextOff = zoneOffset(next, tz);
+    if (nextOff !== off) {
+      let lo = t, hi = next;
+      while (hi - lo > 60000) {
+        const mid = lo + Math.floor((hi - lo) / 120000) * 60000;
+        if (zoneOffset(mid, tz) === off) lo = mid; else hi = mid;
+      }
+      out.push({ at: hi, from: off, to: nextOff });
+      off = nextOff;
+    }
+    t = next;
+  }
+  return out;
+}
+
+/** ±HHMM (±HHMMSS for the odd historical offset). */
+function formatOffset(ms: number): string {
+  const sec = Math.round(Math.abs(ms) / 1000);
+  const hh = String(Math.floor(sec / 3600)).padStart(2, "0");
+  const mm = String(Math.floor((sec % 3600) / 60)).padStart(2, "0");
+  const ss = sec % 60 ? String(sec % 60).padStart(2, "0") : "";
+  return `${ms < 0 ? "-" : "+"}${hh}${mm}${ss}`;
+}
+
+/** Read a local .ics file chosen by the user. */
+export function readICSFile(file: Blob): Promise<string> {
+  return file.text();
+}
+
+export function importICS(text: string, opts: IcsImportOptions): IcsImportResult {
+  const issues: LoadIssue[] = [];
+  const tz = opts.tz ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  const days = Math.max(1, Math.round(opts.days ?? 1));
+  const span = spanOf(days);
+  if (!isISODate(opts.date)) {
+    return { nodes: [], issues: [{ path: "date", message: `"${opts.date}" is not an ISO date` }] };
+  }
+  const day0 = isoToDayNumber(opts.date);
+  const raw: Record<string, unknown>[] = [];
+
+  parseEvents(text).forEach((ev, i) => {
+    const path = `VEVENT[${i}]`;
+    const start = ev.get("DTSTART");
+    if (!start) {
+      issues.push({ path, message: "no DTSTART; skipped" });
+      return;
+    }
+    const label = ev.get("SUMMARY")?.value.trim() || "Event";
+    if (start.params.VALUE === "DATE" || /^\d{8}$/.test(start.value)) {
+      if ((opts.allDay ?? "skip") === "skip") {
+        issues.push({ path, message: `all-day event "${label}" skipped` });
+        return;
+      }
+    }
+    const begin = resolveDateTime(start, tz, issues, `${path}.DTSTART`);
+    if (!begin) return;
+    const finish = ev.get("DTEND") ? resolveDateTime(ev.get("DTEND")!, tz, issues, `${path}.DTEND`) : null;
+    let duration = finish ? (finish.day - begin.day) * DAY_SEC + finish.sec - begin.sec : parseDuration(ev.get("DURATION")?.value);
+    if (begin.allDay && !duration) duration = DAY_SEC; // RFC 5545: an all-day DTSTART alone lasts one day
+
+    const occurrences = occurrenceDays(begin.day, ev.get("RRULE")?.value, day0, days, issues, path);
+    occurrences.forEach((d, k) => {
+      const time = (d - day0) * DAY_SEC + begin.sec;
+      let end = duration && duration > 0 ? time + duration : undefined;
+      if (end != null && end > span) {
+        issues.push({ path, message: `"${label}" runs past the imported range; clipped` });
+        end = span;
+      }
+      const id = ev.get(`${X}ID`)?.value || slug(ev.get("UID")?.value ?? label);
+      const role = ev.get(`${X}ROLE`)?.value as NodeRole | undefined;
+      raw.push({
+        id: occurrences.length > 1 ? `${id}-${k + 1}` : id,
+        time, end, label,
+        icon: ev.get(`${X}ICON`)?.value ?? "",
+        color: ev.get(`${X}COLOR`)?.value,
+        ...(role && NODE_ROLES.includes(role) ? { role } : {}),
+      });
+    });
+  });
+
+  raw.sort((a, b) => (a.time as number) - (b.time as number));
+  const nodes = validateNodes(raw, issues, span);
+  return { nodes, issues };
+}
+
+// --- parsing ---
+
+type Prop = { value: string; params: Record<string, string> };
+type Event = Map<string, Prop>;
+
+function parseEvents(text: string): Event[] {
+  const lines = text.replace(/\r\n?/g, "\n").replace(/\n[ \t]/g, "").split("\n");
+  const events: Event[] = [];
+  let cur: Event | null = null;
+  let nested = 0; // VALARM etc. inside a VEVENT
+  for (const line of lines) {
+    if (!line.trim()) continue;
+    const colon = findValueColon(line);
+    if (colon < 0) continue;
+    const [name, ...rawParams] = line.slice(0, colon).split(";");
+    const key = name.toUpperCase();
+    const value = unescapeText(line.slice(colon + 1));
+    if (key === "BEGIN") {
+      if (value.toUpperCase() === "VEVENT" && !cur) cur = new Map();
+      else if (cur) nested++;
+    } else if (key === "END") {
+      if (cur && nested) nested--;
+      else if (cur && value.toUpperCase() === "VEVENT") { events.push(cur); cur = null; }
+    } else if (cur && !nested && !cur.has(key)) {
+      const params: Record<string, string> = {};
+      for (const p of rawParams) {
+        const eq = p.indexOf("=");
+        if (eq > 0) params[p.slice(0, eq).toUpperCase()] = p.slice(eq + 1).replace(/^"|"$/g, "");
+      }
+      cur.set(key, { value, params });
+    }
+  }
+  return events;
+}
+
+/** The first ':' that is not inside a quoted parameter value. */
+function findValueColon(line: string): number {
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ":" && !quoted) return i;
+  }
+  return -1;
+}
+
+type Resolved = { day: number; sec: TimeSec; allDay: boolean }; // day = days since 1970-01-01 in the target zone
+
+/**
+ * Bring a DATE or DATE-TIME into the routine's zone. UTC ("Z") and TZID times are
+ * converted; floating times are taken as wall-clock; unknown zones are reported.
+ */
+function resolveDateTime(p: Prop, tz: string, issues: LoadIssue[], path: string): Resolved | null {
+  const m = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(p.value.trim());
+  if (!m) {
+    issues.push({ path, message: `unreadable date "${p.value}"; skipped` });
+    return null;
+  }
+  const [, y, mo, d, h, mi, s, z] = m;
+  const wall = Date.UTC(+y, +mo - 1, +d, +(h ?? 0), +(mi ?? 0), +(s ?? 0));
+  if (h === undefined) return { day: Math.floor(wall / 86400000), sec: 0, allDay: true };
+  let instant: number | null = null;
+  if (z) instant = wall;
+  else if (p.params.TZID && p.params.TZID !== tz) {
+    if (isTimeZone(p.params.TZID)) instant = localToInstant(wall, p.params.TZID);
+    else issues.push({ path, message: `unknown timezone "${p.params.TZID}"; read as local time` });
+  }
+  const local = instant === null ? wall : instant + zoneOffset(instant, tz);
+  return { day: Math.floor(local / 86400000), sec: Math.round((local % 86400000) / 1000), allDay: false };
+}
+
+/** Days in [day0, day0 + days) on which an event starting on `first` occurs. */
+function occurrenceDays(first: number, rrule: string | undefined, day0: number, days: number, issues: LoadIssue[], path: string): number[] {
+  const inRange = (d: number) => d >= day0 && d < day0 + days;
+  if (!rrule) return inRange(first) ? [first] : [];
+  const rule = Object.fromEntries(rrule.split(";").map((kv) => kv.split("=") as [string, string]).map(([k, v]) => [k.toUpperCase(), v]));
+  const interval = Math.max(1, parseInt(rule.INTERVAL ?? "1", 10) || 1);
+  const until = rule.UNTIL ? isoToDayNumber(`${rule.UNTIL.slice(0, 4)}-${rule.UNTIL.slice(4, 6)}-${rule.UNTIL.slice(6, 8)}`) : Infinity;
+  const count = rule.COUNT ? parseInt(rule.COUNT, 10) : Infinity;
+  const byDay = rule.BYDAY ? rule.BYDAY.split(",").map((d: string) => WEEKDAY_CODES.indexOf(d.slice(-2))) : null;
+
+  const out: number[] = [];
+  if (rule.FREQ === "DAILY") {
+    for (let d = day0; d < day0 + days; d++) {
+      const k = d - first;
+      if (k >= 0 && k % interval === 0 && k / interval < count && d <= until) out.push(d);
+    }
+    return out;
+  }
+  if (rule.FREQ === "WEEKLY") {
+    const weekdays = byDay ?? [weekday(first)];
+    for (let d = day0; d < day0 + days; d++) {
+      const weeks = Math.floor((d - weekStart(first)) / 7);
+      if (d < first || d > until || weeks % interval !== 0 || !weekdays.includes(weekday(d))) continue;
+      if (count !== Infinity && countWeekly(first, d, weekdays, interval) > count) continue;
+      out.push(d);
+    }
+    return out;
+  }
+  issues.push({ path: `${path}.RRULE`, message: `unsupported recurrence "${rule.FREQ}"; first occurrence only` });
+  return inRange(first) ? [first] : [];
+}
+
+const WEEKDAY_CODES = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+const weekday = (day: number) => (day + 4) % 7; // 1970-01-01 was a Thursday
+const weekStart = (day: number) => day - ((weekday(day) + 6) % 7); // Monday (RFC 5545 WKST default)
+
+/** 1-based index of occurrence `d` in a weekly series (for COUNT). */
+function countWeekly(first: number, d: number, weekdays: number[], interval: number): number {
+  let n = 0;
+  for (let x = first; x <= d; x++) {
+    if (Math.floor((x - weekStart(first)) / 7) % interval === 0 && weekdays.includes(weekday(x))) n++;
+  }
+  return n;
+}
+
+/** RFC 5545 DURATION ("PT1H30M", "P1D") in seconds; 0 when absent or unreadable. */
+function parseDuration(v: string | undefined): number {
+  const m = v ? /^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/.exec(v.trim()) : null;
+  if (!m) return 0;
+  const sec = +(m[2] ?? 0) * 7 * DAY_SEC + +(m[3] ?? 0) * DAY_SEC + +(m[4] ?? 0) * 3600 + +(m[5] ?? 0) * 60 + +(m[6] ?? 0);
+  return m[1] === "-" ? 0 : sec;
+}
+
+// --- formatting ---
+
+function formatLocal(date: string, sec: TimeSec): string {
+  const ms = Date.UTC(+date.slice(0, 4), +date.slice(5, 7) - 1, +date.slice(8, 10)) + Math.round(sec) * 1000;
+  return new Date(ms).toISOString().replace(/[-:]/g, "").slice(0, 15);
+}
+
+function formatUTC(d: Date): string {
+  return d.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+function isoToDayNumber(iso: string): number {
+  return Math.floor(Date.UTC(+iso.slice(0, 4), +iso.slice(5, 7) - 1, +iso.slice(8, 10)) / 86400000);
+}
+
+function escapeText(s: string): string {
+  return s.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function unescapeText(s: string): string {
+  return s.replace(/\\([\\;,nN])/g, (_, c: string) => (c === "n" || c === "N" ? "\n" : c));
+}
+
+/** Fold to 75 octets per line (RFC 5545 §3.1), never splitting a UTF-8 sequence. */
+function foldLine(line: string): string {
+  const enc = new TextEncoder();
+  if (enc.encode(line).length <= 75) return line;
+  const out: string[] = [];
+  let cur = "";
+  let size = 0;
+  for (const ch of line) {
+    const n = enc.encode(ch).length;
+    const limit = out.length ? 74 : 75; // continuation lines start with a space
+    if (size + n > limit) { out.push(cur); cur = ""; size = 0; }
+    cur += ch;
+    size += n;
+  }
+  out.push(cur);
+  return out.join("\r\n ");
+}
+
+function slug(s: string): string {
+  return s.split("@")[0].toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "event";
+}
@@ -0,0 +1,67 @@
+import { fractionAt, mainAt, mainOf, placeNodes, serpentineLayout, withMain } from './layout'
+import { buildParamLUT, pointAtTime } from './geometry/ParamMap'
+
+describe('serpentineLayout', () => {
+  it('fills the container along its long side, starting and ending on the centre line', () => {
+    const phone = serpentineLayout({ width: 390, height: 844, count: 4 })
+    expect(phone.orientation).toBe('vertical')
+    expect(phone.controls[0]).toEqual({ x: 195, y: 24 })
+    expect(phone.controls[phone.controls.length - 1]).toEqual({ x: 195, y: 820 })
+    for (const p of phone.controls) {
+      expect(p.x).toBeGreaterThanOrEqual(24)
+      expect(p.x).toBeLessThanOrEqual(366)
+    }
+    const laptop = serpentineLayout({ width: 1280, height: 400, count: 4 })
+    expect(laptop.orientation).toBe('horizontal')
+    expect(laptop.controls[0]).toEqual({ x: 24, y: 200 })
+  })
+
+  it('adds turns until every label has room, and says when it cannot', () => {
+    const few = serpentineLayout({ width: 390, height: 844, count: 4 })
+    const many = serpentineLayout({ width: 390, height: 844, count: 30 })
+    expect(few.turns).toBe(2)
+    expect(many.turns).toBeGreaterThan(few.turns)
+    expect(many.length).toBeGreaterThanOrEqual(29 * 56)
+    expect(many.cramped).toBe(false)
+    // one sweep is never shorter than a label
+    expect((many.main[1] - many.main[0]) / many.turns).toBeGreaterThanOrEqual(56)
+
+    const tiny = serpentineLayout({ width: 200, height: 300, count: 40 })
+    expect(tiny.cramped).toBe(true)
+  })
+
+  it('scales the sweeps with wiggle, down to a straight line', () => {
+    const flat = serpentineLayout({ width: 400, height: 800, count: 10, wiggle: 0 })
+    expect(flat.controls.every(p => p.x === 200)).toBe(true)
+    expect(flat.length).toBeCloseTo(752, 6)
+    const wide = serpentineLayout({ width: 400, height: 800, count: 10, wiggle: 1 })
+    expect(Math.max(...wide.controls.map(p => p.x))).toBe(376)
+  })
+
+  it('re-lays out for a rotated screen', () => {
+    const portrait = serpentineLayout({ width: 390, height: 844, count: 6 })
+    const landscape = serpentineLayout({ width: 844, height: 390, count: 6 })
+    expect(landscape.controls.map(p => ({ x: p.y, y: p.x }))).toEqual(portrait.controls)
+  })
+})
+
+describe('placeNodes', () => {
+  const layout = serpentineLayout({ width: 400, height: 800, count: 4, padding: 100, wiggle: 0.5, labelSpacing: 110 })
+
+  it('alternates sides and maps shares of the routine onto the main axis', () => {
+    const pts = placeNodes(layout, [0.25, 0.375, 0.625, 0.875])
+    expect(pts.map(p => p.x)).toEqual([150, 250, 150, 250])
+    expect(pts.map(p => p.y)).toEqual([250, 325, 475, 625])
+    expect(fractionAt(layout, mainOf(layout, pts[2]))).toBeCloseTo(0.625, 9)
+    expect(mainAt(layout, 2)).toBe(700)
+    expect(withMain(layout, pts[0], 300)).toEqual({ x: 150, y: 300 })
+  })
+
+  it('widens the sweeps so close neighbours stay a label apart', () => {
+    const pts = placeNodes(layout, [0.5, 0.52, 0.9])
+    expect(Math.hypot(pts[1].x - pts[0].x, pts[1].y - pts[0].y)).toBeGreaterThanOrEqual(110 - 1e-9)
+    // the path through the nodes still runs from first to last
+    const lut = buildParamLUT({ controls: pts, tension: 0.5 })
+    expect(pointAtTime(lut, 0)).toEqual(pts[0])
+  })
+})
@@ -0,0 +1,118 @@
+import type { Vec2 } from "./types";
+import { curveSegments } from "./geometry/CurveModel";
+import { arcLengthAt } from "./geometry/ArcLength";
+
+export type Orientation = "vertical" | "horizontal";
+
+export type LayoutOptions = {
+  width: number;                        // container size, in the units the layout is drawn in
+  height: number;
+  count: number;                        // nodes that need room along the path
+  orientation?: Orientation | "auto";   // main (time) axis; auto follows the longer side (default)
+  wiggle?: number;                      // 0 = straight line … 1 = sweeps reach the padding (default 0.6)
+  labelSpacing?: number;                // arc length a node and its label need (default 56)
+  padding?: number;                     // kept clear on every side (default 24)
+};
+
+export type SerpentineLayout = {
+  width: number;
+  height: number;
+  orientation: Orientation;
+  controls: Vec2[];       // start, one per sweep, end
+  turns: number;          // sweeps across the centre line
+  centre: number;         // cross-axis coordinate of the centre line
+  amplitude: number;      // how far each sweep reaches from the centre line
+  maxAmplitude: number;   // the most the padding allows
+  main: [number, number]; // where the routine starts and ends along the main axis
+  length: number;         // arc length of the generated path
+  labelSpacing: number;
+  cramped: boolean;       // even the most turns that fit leave less than labelSpacing per node
+};
+
+/**
+ * A serpentine that fills the container: it starts and ends on the centre line
+ * and sweeps alternately to either side, evenly along the main axis. Turns are
+ * added until the path is long enough for `count` labels, but never so many
+ * that one sweep is shorter than a label.
+ */
+export function serpentineLayout(opts: LayoutOptions): SerpentineLayout {
+  const { width, height, count, wiggle = 0.6, labelSpacing = 56, padding = 24 } = opts;
+  const orientation: Orientation = !opts.orientation || opts.orientation === "auto"
+    ? (height >= width ? "vertical" : "horizontal")
+    : opts.orientation;
+  const [along, across] = orientation === "vertical" ? [height, width] : [width, height];
+  const main: [number, number] = [padding, Math.max(padding, along - padding)];
+  const centre = across / 2;
+  const maxAmplitude = Math.max(0, across / 2 - padding);
+  const amplitude = Math.min(1, Math.max(0, wiggle)) * maxAmplitude;
+  const needed = Math.max(0, count - 1) * labelSpacing;
+  const maxTurns = Math.max(1, Math.floor((main[1] - main[0]) / labelSpacing));
+
+  const base = { width, height, orientation, centre, amplitude, maxAmplitude, main, labelSpacing };
+  let turns = Math.min(2, maxTurns);
+  let controls = sweeps(base, turns);
+  let length = pathLength(controls);
+  // a straight line gets no longer with more turns
+  while (length < needed && turns < maxTurns && amplitude > 0) {
+    turns++;
+    controls = sweeps(base, turns);
+    length = pathLength(controls);
+  }
+  return { ...base, controls, turns, length, cramped: length < needed };
+}
+
+/**
+ * Nodes as the path's own controls (App): each sits at its share of the main
+ * axis, alternating sides of the centre line. Sweeps widen, up to the padding,
+ * until neighbours are `labelSpacing` apart.
+ */
+export function placeNodes(layout: SerpentineLayout, fractions: number[]): Vec2[] {
+  const { main, centre, labelSpacing, maxAmplitude } = layout;
+  let amplitude = layout.amplitude;
+  for (let i = 1; i < fractions.length; i++) {
+    const along = Math.abs(fractions[i] - fractions[i - 1]) * (main[1] - main[0]);
+    amplitude = Math.max(amplitude, Math.sqrt(Math.max(0, labelSpacing ** 2 - along ** 2)) / 2);
+  }
+  amplitude = Math.min(amplitude, maxAmplitude);
+  return fractions.map((f, i) => toPoint(layout, mainAt(layout, f), centre + (i % 2 ? amplitude : -amplitude)));
+}
+
+/** Main-axis coordinate of a share (0..1) of the routine. */
+export function mainAt(layout: Pick<SerpentineLayout, "main">, fraction: number): number {
+  const [a, b] = layout.main;
+  return a + Math.min(1, Math.max(0, fraction)) * (b - a);
+}
+
+/** Share of the routine at a main-axis coordinate, clamped to 0..1. */
+export function fractionAt(layout: Pick<SerpentineLayout, "main">, coord: number): number {
+  const [a, b] = layout.main;
+  return b > a ? Math.min(1, Math.max(0, (coord - a) / (b - a))) : 0;
+}
+
+export function mainOf(layout: Pick<SerpentineLayout, "orientation">, p: Vec2): number {
+  return layout.orientation === "vertical" ? p.y : p.x;
+}
+
+/** `p` moved along the main axis to `coord`. */
+export function withMain(layout: Pick<SerpentineLayout, "orientation">, p: Vec2, coord: number): Vec2 {
+  return layout.orientation === "vertical" ? { x: p.x, y: coord } : { x: coord, y: p.y };
+}
+
+function toPoint(layout: Pick<SerpentineLayout, "orientation">, along: number, across: number): Vec2 {
+  return layout.orientation === "vertical" ? { x: across, y: along } : { x: along, y: across };
+}
+
+function sweeps(layout: Pick<SerpentineLayout, "orientation" | "main" | "centre" | "amplitude">, turns: number): Vec2[] {
+  const { main, centre, amplitude } = layout;
+  const out = [toPoint(layout, main[0], centre)];
+  for (let k = 0; k < turns; k++) {
+    out.push(toPoint(layout, mainAt(layout, (k + 0.5) / turns), centre + (k % 2 ? amplitude : -amplitude)));
+  }
+  out.push(toPoint(layout, main[1], centre));
+  return out;
+}
+
+// budgeted with Catmull-Rom; the other models differ by a few percent
+function pathLength(controls: Vec2[]): number {
+  return curveSegments(controls, 0.5).reduce((sum, c) => sum + arcLengthAt(c), 0);
+}
@@ -0,0 +1,53 @@
+import { constrainTime } from './constraints'
+import { MIN_NODES, NODE_PALETTE, duplicateNode, insertNode, removeNode, uniqueNodeId } from './nodes'
+import type { NodeModel } from './types'
+
+const node = (id: string, time: number, extra: Partial<NodeModel> = {}): NodeModel =>
+  ({ id, time, label: id, icon: '', color: '#000', ...extra })
+
+const day = [
+  node('wake', 6 * 3600, { role: 'start' }),
+  node('work', 9 * 3600, { end: 17 * 3600, icon: 'briefcase' }),
+  node('sleep', 22 * 3600, { role: 'end' }),
+]
+
+describe('node editing', () => {
+  it('gives new nodes ids nothing else uses', () => {
+    expect(uniqueNodeId(day, 'lunch')).toBe('lunch')
+    expect(uniqueNodeId(day, 'work')).toBe('work-2')
+    expect(uniqueNodeId([...day, node('work-2', 0)], 'work')).toBe('work-3')
+  })
+
+  it('inserts a node where the path visits it', () => {
+    const { nodes, node: added } = insertNode(day, 2, 19 * 3600)
+    expect(nodes.map(n => n.id)).toEqual(['wake', 'work', 'node', 'sleep'])
+    expect(added).toMatchObject({ time: 19 * 3600, label: 'New', color: NODE_PALETTE[3] })
+    expect(added.role).toBeUndefined()
+  })
+
+  it('duplicates halfway to the next node, keeping the duration but not an anchor role', () => {
+    const { nodes, node: copy } = duplicateNode(day, 'work')!
+    expect(nodes.map(n => n.id)).toEqual(['wake', 'work', 'work-2', 'sleep'])
+    expect(copy).toMatchObject({ time: 15.5 * 3600, end: 23.5 * 3600, icon: 'briefcase', label: 'work' })
+    const last = duplicateNode(day, 'sleep')!.node
+    expect(last.time).toBe(23 * 3600)
+    expect(last.role).toBeUndefined()
+    expect(duplicateNode(day, 'nope')).toBeNull()
+  })
+
+  it('holds a copy inside the routine and its windows once constrained, as the app does', () => {
+    const keepOrder = { keepOrder: true, minGapSec: 0 }
+    const last = duplicateNode(day, 'sleep')!
+    expect(constrainTime(last.nodes, last.node.id, last.node.time, keepOrder).time).toBe(22 * 3600)
+    const windowed = [node('a', 8 * 3600), node('b', 9 * 3600, { latest: 10 * 3600 }), node('c', 12 * 3600)]
+    const copy = duplicateNode(windowed, 'b')!
+    expect(copy.node.time).toBe(10.5 * 3600)
+    expect(constrainTime(copy.nodes, copy.node.id, copy.node.time, keepOrder).time).toBe(10 * 3600)
+  })
+
+  it('keeps enough nodes to draw a curve', () => {
+    expect(removeNode(day, 'work').map(n => n.id)).toEqual(['wake', 'sleep'])
+    const two = day.slice(0, MIN_NODES)
+    expect(removeNode(two, 'wake')).toBe(two)
+  })
+})
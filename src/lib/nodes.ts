@@ -0,0 +1,57 @@
+import type { NodeId, NodeModel, TimeSec } from "./types";
+import { isAnchor } from "./roles";
+import { moveNodeTime } from "./spans";
+import { DAY_SEC } from "./time";
+
+/** Colours handed to new nodes in turn. */
+export const NODE_PALETTE = ["#f59e0b", "#3b82f6", "#10b981", "#8b5cf6", "#ef4444", "#14b8a6"];
+
+/** The App draws its curve through the nodes, so it never keeps fewer than this. */
+export const MIN_NODES = 2;
+
+/** `base`, or `base-2`, `base-3`… whichever no node uses yet. */
+export function uniqueNodeId(nodes: NodeModel[], base: string): NodeId {
+  const taken = new Set(nodes.map((n) => n.id));
+  if (!taken.has(base)) return base;
+  let k = 2;
+  while (taken.has(`${base}-${k}`)) k++;
+  return `${base}-${k}`;
+}
+
+/**
+ * A fresh free node at `time`, inserted at `index` (the order the path visits
+ * nodes in). It takes the next palette colour and a placeholder label.
+ */
+export function insertNode(nodes: NodeModel[], index: number, time: TimeSec): { nodes: NodeModel[]; node: NodeModel } {
+  const node: NodeModel = {
+    id: uniqueNodeId(nodes, "node"),
+    time,
+    label: "New",
+    icon: "",
+    color: NODE_PALETTE[nodes.length % NODE_PALETTE.length],
+  };
+  const at = Math.max(0, Math.min(nodes.length, index));
+  return { nodes: [...nodes.slice(0, at), node, ...nodes.slice(at)], node };
+}
+
+/**
+ * A copy of node `id` placed right after it, halfway to the next node in time
+ * (an hour later when it is the last). Anchor roles stay with the original.
+ * The time ignores constraints: pass it through `constrainTime` before use.
+ */
+export function duplicateNode(nodes: NodeModel[], id: NodeId, span = DAY_SEC): { nodes: NodeModel[]; node: NodeModel } | null {
+  const i = nodes.findIndex((n) => n.id === id);
+  if (i < 0) return null;
+  const src = nodes[i];
+  const later = nodes.filter((n) => n.time > src.time).map((n) => n.time);
+  const time = later.length ? (src.time + Math.min(...later)) / 2 : Math.min(span, src.time + 3600);
+  const { role, ...rest } = src;
+  const copy = moveNodeTime({ ...rest, ...(role && !isAnchor(src) ? { role } : {}), id: uniqueNodeId(nodes, src.id) }, time, span);
+  return { nodes: [...nodes.slice(0, i + 1), copy, ...nodes.slice(i + 1)], node: copy };
+}
+
+/** Nodes without `id`; unchanged when that would leave fewer than MIN_NODES. */
+export function removeNode(nodes: NodeModel[], id: NodeId): NodeModel[] {
+  if (nodes.length <= MIN_NODES) return nodes;
+  return nodes.filter((n) => n.id !== id);
+}
@@ -0,0 +1,33 @@
+import { canChangeTime, canMove, canSlide, isAnchor } from './roles'
+import { constrainTime } from './constraints'
+import type { NodeModel, NodeRole } from './types'
+
+const node = (id: string, time: number, role?: NodeRole): NodeModel => ({ id, time, role, label: id, icon: '', color: '#000' })
+
+describe('Node roles', () => {
+  it('decides anchoring from the role, not the label', () => {
+    expect(isAnchor({ ...node('gran', 0), label: 'Wake up Grandma' })).toBe(false)
+    expect(isAnchor({ ...node('reveil', 0, 'start'), label: 'Réveil' })).toBe(true)
+  })
+
+  it('maps each role to what may change', () => {
+    const table = (['free', 'start', 'end', 'pinned-time', 'pinned-position'] as const).map(role => {
+      const n = node('n', 0, role)
+      return [role, canChangeTime(n), canMove(n), canSlide(n)]
+    })
+    expect(table).toEqual([
+      ['free', true, true, true],
+      ['start', false, true, false],
+      ['end', false, true, false],
+      ['pinned-time', false, true, false],
+      ['pinned-position', true, false, false],
+    ])
+  })
+
+  it('keeps other nodes between the anchors even without ordering', () => {
+    const nodes = [node('lunch', 46800), node('wake', 21600, 'start'), node('sleep', 79200, 'end')]
+    const free = { keepOrder: false, minGapSec: 0 }
+    expect(constrainTime(nodes, 'lunch', 3600, free)).toMatchObject({ time: 21600, limit: { nodeId: 'wake' } })
+    expect(constrainTime(nodes, 'lunch', 86000, free)).toMatchObject({ time: 79200, limit: { nodeId: 'sleep' } })
+  })
+})
@@ -0,0 +1,27 @@
+import type { NodeModel, NodeRole } from "./types";
+
+export const NODE_ROLES: readonly NodeRole[] = ["free", "start", "end", "pinned-time", "pinned-position"];
+
+export function roleOf(n: NodeModel): NodeRole {
+  return n.role ?? "free";
+}
+
+/** Start and end anchors: nothing else may be scheduled before / after them. */
+export function isAnchor(n: NodeModel): boolean {
+  return n.role === "start" || n.role === "end";
+}
+
+/** Anchors and time-pinned nodes keep their time whatever happens to the shape. */
+export function canChangeTime(n: NodeModel): boolean {
+  return !isAnchor(n) && n.role !== "pinned-time";
+}
+
+/** Position-pinned nodes can't be sculpted in 2D. */
+export function canMove(n: NodeModel): boolean {
+  return n.role !== "pinned-position";
+}
+
+/** Sliding along the path changes both time and position. */
+export function canSlide(n: NodeModel): boolean {
+  return canChangeTime(n) && canMove(n);
+}
@@ -1,5 +1,27 @@
-import type { CurveState, NodeModel } from './types'
+import type { CurveState, NodeModel, RoutineDocument } from './types'
 import { buildParamLUT, pointAtTime } from './geometry/ParamMap'
+import {
+  DEFAULT_NODE_COLOR, DEFAULT_SETTINGS, LEGACY_NODES_KEY, SCHEMA_VERSION, STORAGE_KEY,
+  loadRoutine, parseRoutine, saveRoutine, serializeRoutine,
+} from './serialization'
+
+const fallback: RoutineDocument = {
+  version: SCHEMA_VERSION,
+  curve: { controls: [{ x: 0, y: 0 }, { x: 100, y: 0 }], tension: 0.5 },
+  nodes: [{ id: 'd', time: 0, label: 'Default', icon: '', color: '#fff' }],
+  nodePositions: {},
+  settings: DEFAULT_SETTINGS,
+}
+
+function memoryStorage(init: Record<string, string> = {}) {
+  const data = new Map(Object.entries(init))
+  return {
+    data,
+    getItem: (k: string) => data.get(k) ?? null,
+    setItem: (k: string, v: string) => { data.set(k, v) },
+    removeItem: (k: string) => { data.delete(k) },
+  }
+}
 
 describe('Serialization restore tolerance', () => {
   it('restored curve renders within ±1px at sample points', () => {
@@ -29,3 +51,157 @@ describe('Serialization restore tolerance', () => {
 })
 
 
+
+describe('Routine document', () => {
+  const doc: RoutineDocument = {
+    version: SCHEMA_VERSION,
+    curve: { controls: [{ x: 1, y: 2 }, { x: 3, y: 4 }, { x: 5, y: 6 }], tension: 0.3 },
+    nodes: [{ id: 'a', time: 3600, label: 'A', icon: 'sun', color: '#f00' }],
+    nodePositions: { a: { x: 10, y: 20 } },
+    settings: { ...DEFAULT_SETTINGS, softness: 0.4 },
+  }
+
+  it('round-trips a current document without issues', () => {
+    const { doc: out, issues, migratedFrom } = parseRoutine(serializeRoutine(doc), fallback)
+    expect(out).toEqual(doc)
+    expect(issues).toEqual([])
+    expect(migratedFrom).toBeNull()
+  })
+
+  it('migrates a legacy ck_nodes array', () => {
+    const legacy = JSON.stringify(doc.nodes)
+    const { doc: out, migratedFrom } = parseRoutine(legacy, fallback)
+    expect(migratedFrom).toBe(0)
+    expect(out.version).toBe(SCHEMA_VERSION)
+    expect(out.nodes).toEqual(doc.nodes)
+    expect(out.curve).toEqual(fallback.curve)
+    expect(out.nodePositions).toEqual({})
+  })
+
+  it('repairs out-of-range times, duplicate ids and missing colors', () => {
+    const raw = JSON.stringify([
+      { id: 'a', time: -50, label: 'A', icon: '', color: '#000' },
+      { id: 'a', time: 90000, label: 'B', icon: '' },
+      { id: 'c', time: 'noon', label: 'C', icon: '', color: '#000' },
+      null,
+    ])
+    const { doc: out, issues } = parseRoutine(raw, fallback)
+    expect(out.nodes.map(n => n.id)).toEqual(['a', 'a-2'])
+    expect(out.nodes.map(n => n.time)).toEqual([0, 86400])
+    expect(out.nodes[1].color).toBe(DEFAULT_NODE_COLOR)
+    expect(issues.length).toBeGreaterThanOrEqual(5)
+  })
+
+  it('falls back with an issue instead of throwing on garbage', () => {
+    const { doc: out, issues } = parseRoutine('{not json', fallback)
+    expect(out).toBe(fallback)
+    expect(issues).toHaveLength(1)
+  })
+
+  it('loads the legacy key and replaces it on save', () => {
+    const storage = memoryStorage({ [LEGACY_NODES_KEY]: JSON.stringify(doc.nodes) })
+    const { doc: out } = loadRoutine(storage, fallback)
+    expect(out.nodes).toEqual(doc.nodes)
+    saveRoutine(storage, out)
+    expect(storage.data.has(LEGACY_NODES_KEY)).toBe(false)
+    expect(JSON.parse(storage.data.get(STORAGE_KEY)!).version).toBe(SCHEMA_VERSION)
+  })
+
+  it('accepts node times across the whole multi-day span', () => {
+    const week = { ...doc, settings: { ...doc.settings, days: 7, startDate: '2026-10-19' },
+      nodes: [{ id: 'tue', time: 86400 + 3600, label: 'Tue', icon: '', color: '#000' }] }
+    const { doc: out, issues } = parseRoutine(serializeRoutine(week), fallback)
+    expect(issues).toEqual([])
+    expect(out.nodes[0].time).toBe(86400 + 3600)
+    expect(out.settings.days).toBe(7)
+  })
+
+  it('restores undo stacks and drops invalid snapshots', () => {
+    const snap = { curve: doc.curve, nodes: doc.nodes, nodePositions: doc.nodePositions }
+    const withHistory = { ...doc, history: { past: [snap, { curve: 'bad' }], future: [snap] } }
+    const { doc: out, issues } = parseRoutine(serializeRoutine(withHistory as RoutineDocument), fallback)
+    expect(out.history!.past).toEqual([snap])
+    expect(out.history!.future).toEqual([snap])
+    expect(issues).toHaveLength(1)
+  })
+
+  it('keeps snap settings and rejects unsupported grids', () => {
+    const snapped = { ...doc, settings: { ...doc.settings, snap: { ...doc.settings.snap, grid: 1800, enabled: false } } }
+    expect(parseRoutine(serializeRoutine(snapped), fallback).doc.settings.snap).toEqual(snapped.settings.snap)
+    const odd = { ...doc, settings: { ...doc.settings, snap: { ...doc.settings.snap, grid: 420 } } }
+    const { doc: out, issues } = parseRoutine(serializeRoutine(odd), fallback)
+    expect(out.settings.snap.grid).toBe(fallback.settings.snap.grid)
+    expect(issues.map(i => i.path)).toEqual(['settings.snap.grid'])
+  })
+
+  it('keeps node windows and drops empty ones', () => {
+    const windowed = { ...doc, nodes: [
+      { ...doc.nodes[0], earliest: 3600, latest: 7200 },
+      { ...doc.nodes[0], id: 'empty', earliest: 7200, latest: 3600 },
+    ] }
+    const { doc: out, issues } = parseRoutine(serializeRoutine(windowed), fallback)
+    expect(out.nodes[0]).toMatchObject({ earliest: 3600, latest: 7200 })
+    expect(out.nodes[1].earliest).toBeUndefined()
+    expect(issues.map(i => i.message)).toEqual(['window is empty; dropped'])
+  })
+
+  it('keeps the path colouring and repairs an unknown one', () => {
+    const gradient = { ...doc, settings: { ...doc.settings, pathColors: 'gradient' as const } }
+    expect(parseRoutine(serializeRoutine(gradient), fallback).doc.settings.pathColors).toBe('gradient')
+    const odd = { ...doc, settings: { ...doc.settings, pathColors: 'rainbow' } }
+    const { doc: out, issues } = parseRoutine(JSON.stringify(odd), fallback)
+    expect(out.settings.pathColors).toBe('flat')
+    expect(issues.map(i => i.path)).toEqual(['settings.pathColors'])
+  })
+
+  it('keeps a known curve model and repairs an unknown one', () => {
+    const centripetal = { ...doc, settings: { ...doc.settings, curveModel: 'centripetal' as const } }
+    expect(parseRoutine(serializeRoutine(centripetal), fallback).doc.settings.curveModel).toBe('centripetal')
+    const odd = { ...doc, settings: { ...doc.settings, curveModel: 'nurbs' } }
+    const { doc: out, issues } = parseRoutine(JSON.stringify(odd), fallback)
+    expect(out.settings.curveModel).toBe(fallback.settings.curveModel)
+    expect(issues.map(i => i.path)).toEqual(['settings.curveModel'])
+  })
+
+  it('keeps known time zones and drops unknown ones', () => {
+    const zoned = { ...doc, settings: { ...doc.settings, timeZone: 'Europe/Lisbon', secondTimeZone: 'Mars/Olympus' } }
+    const { doc: out, issues } = parseRoutine(serializeRoutine(zoned), fallback)
+    expect(out.settings.timeZone).toBe('Europe/Lisbon')
+    expect(out.settings.secondTimeZone).toBeNull()
+    expect(issues.map(i => i.path)).toEqual(['settings.secondTimeZone'])
+  })
+
+  it('gives v1 wake/sleep nodes explicit anchor roles', () => {
+    const v1 = JSON.stringify({ ...doc, version: 1, nodes: [
+      { id: 'wake', time: 21600, label: 'Réveil', icon: '', color: '#000' },
+      { id: 'gran', time: 30000, label: 'Wake up Grandma', icon: '', color: '#000' },
+      { id: 'sleep', time: 79200, label: 'Sleep', icon: '', color: '#000' },
+    ] })
+    const { doc: out, migratedFrom } = parseRoutine(v1, fallback)
+    expect(migratedFrom).toBe(1)
+    expect(out.nodes.map(n => n.role)).toEqual(['start', undefined, 'end'])
+  })
+
+  it('normalises v2 pixel coordinates without moving node times', () => {
+    const curve = { controls: [{ x: 40, y: 150 }, { x: 280, y: 60 }, { x: 520, y: 240 }, { x: 760, y: 150 }], tension: 0.5 }
+    const snapshot = { curve, nodes: doc.nodes, nodePositions: { a: { x: 150, y: 250 } } }
+    const v2 = JSON.stringify({ ...doc, ...snapshot, version: 2, history: { past: [snapshot], future: [] } })
+    const { doc: out, migratedFrom, issues } = parseRoutine(v2, fallback)
+    expect(migratedFrom).toBe(2)
+    expect(issues).toEqual([])
+    expect(out.curve.controls[0]).toEqual({ x: 0, y: 0 })
+    expect(out.curve.controls[3]).toEqual({ x: 1, y: 0 })
+    expect(out.curve.controls[1].y).toBeCloseTo(-0.125, 9)
+    // the old App drew time down y 100..700, centred on x 200
+    expect(out.nodePositions.a.x).toBeCloseTo(0.25, 9)
+    expect(out.nodePositions.a.y).toBeCloseTo(1 / 12, 9)
+    expect(out.history?.past[0].nodePositions).toEqual(out.nodePositions)
+    // the same shape: drawn back at the old size, every time lands on the same spot
+    const redrawn = out.curve.controls.map(p => ({ x: 40 + p.x * 720, y: 150 + p.y * 720 }))
+    const before = buildParamLUT(curve), after = buildParamLUT({ ...out.curve, controls: redrawn })
+    for (const t of [0, 20000, 43200, 86400]) {
+      const a = pointAtTime(before, t), b = pointAtTime(after, t)
+      expect(Math.hypot(a.x - b.x, a.y - b.y)).toBeLessThan(1e-6)
+    }
+  })
+})
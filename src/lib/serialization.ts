@@ -0,0 +1,404 @@
+import { DAY_SEC, MAX_DAYS, isISODate, spanOf } from "./time";
+import { HISTORY_LIMIT } from "./history";
+import { DEFAULT_SNAP, SNAP_GRIDS } from "./snap";
+import { DEFAULT_CONSTRAINTS } from "./constraints";
+import { NODE_ROLES } from "./roles";
+import { isTimeZone } from "./dayModel";
+import { isCurveModelName } from "./geometry/CurveModel";
+import { type Viewport, fromView, normalizePoints } from "./viewport";
+import type { ConstraintSettings, CurveState, DensityKey, NodeModel, RoutineDocument, RoutineSettings, RoutineSnapshot, SnapSettings, TimeWarpSettings, Vec2 } from "./types";
+
+/** Current schema version written by `serializeRoutine`. */
+export const SCHEMA_VERSION = 3;
+
+export const STORAGE_KEY = "ck_routine";
+/** Pre-versioning key: a bare `NodeModel[]` written by older builds. */
+export const LEGACY_NODES_KEY = "ck_nodes";
+
+export const DEFAULT_NODE_COLOR = "#64748b";
+export const DEFAULT_SETTINGS: RoutineSettings = {
+  softness: 0.5,
+  curveModel: "symmetric-arms",
+  timeWarp: { mode: "uniform", keys: [] },
+  days: 1,
+  startDate: null,
+  timeZone: null,
+  secondTimeZone: null,
+  snap: DEFAULT_SNAP,
+  constraints: DEFAULT_CONSTRAINTS,
+  pathColors: "flat",
+};
+
+export type LoadIssue = { path: string; message: string };
+
+export type LoadResult = {
+  doc: RoutineDocument;
+  issues: LoadIssue[];          // everything that was repaired or dropped
+  migratedFrom: number | null;  // source version when a migration ran
+};
+
+type StorageLike = Pick<Storage, "getItem" | "setItem" | "removeItem">;
+type Raw = Record<string, unknown>;
+
+/**
+ * Migrations indexed by the version they upgrade FROM.
+ * Each step only reshapes data; validation fills and repairs afterwards.
+ */
+const MIGRATIONS: Record<number, (data: unknown) => Raw> = {
+  // v0: unversioned `JSON.stringify(nodes)` under `ck_nodes`, or a bare `{ curve, nodes }`
+  0: (data) => Array.isArray(data) ? { version: 1, nodes: data } : { ...(isObject(data) ? data : {}), version: 1 },
+  // v1: wake/sleep were anchored by id in the renderer; make that explicit as roles
+  1: (data) => ({
+    ...eachSnapshot(data, (v) => (Array.isArray(v.nodes) ? { ...v, nodes: v.nodes.map(legacyRole) } : v)),
+    version: 2,
+  }),
+  // v2: controls and node positions were absolute pixels; normalise them so they survive resizes
+  2: (data) => ({
+    ...eachSnapshot(data, (v) => ({ ...v, curve: legacyCurve(v.curve), nodePositions: legacyPositions(v.nodePositions) })),
+    version: 3,
+  }),
+};
+
+/** Apply `fn` to the document's own snapshot and to every one in its undo history. */
+function eachSnapshot(data: unknown, fn: (snap: Raw) => Raw): Raw {
+  if (!isObject(data)) return {};
+  const snap = (v: unknown) => (isObject(v) ? fn(v) : v);
+  const { history } = data;
+  return {
+    ...fn(data),
+    history: isObject(history) ? { ...history, past: asArray(history.past).map(snap), future: asArray(history.future).map(snap) } : history,
+  };
+}
+
+/** Where v2 App drew nodes: a 400×800 viewBox with time running down y 100..700. */
+const LEGACY_APP_FRAME: Viewport = { orientation: "vertical", origin: { x: 200, y: 100 }, scale: 600 };
+
+function legacyCurve(c: unknown): unknown {
+  // v2 curves ran left to right, drawn in a box fitted around their controls
+  if (!isObject(c) || !Array.isArray(c.controls) || !c.controls.every(isVec2)) return c;
+  return { ...c, controls: normalizePoints(c.controls, "horizontal") };
+}
+
+function legacyPositions(p: unknown): unknown {
+  if (!isObject(p)) return p;
+  return Object.fromEntries(Object.entries(p).map(([id, v]) => [id, isVec2(v) ? fromView(LEGACY_APP_FRAME, v) : v]));
+}
+
+function legacyRole(n: unknown): unknown {
+  if (!isObject(n) || n.role !== undefined) return n;
+  if (n.id === "wake") return { ...n, role: "start" };
+  if (n.id === "sleep") return { ...n, role: "end" };
+  return n;
+}
+
+function asArray(v: unknown): unknown[] {
+  return Array.isArray(v) ? v : [];
+}
+
+export function serializeRoutine(doc: RoutineDocument): string {
+  return JSON.stringify({ ...doc, version: SCHEMA_VERSION });
+}
+
+/** Parse a stored payload of any known version into a valid current document. */
+export function parseRoutine(json: string, fallback: RoutineDocument): LoadResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { doc: fallback, issues: [{ path: "", message: "payload is not valid JSON" }], migratedFrom: null };
+  }
+  const issues: LoadIssue[] = [];
+  const { data: migrated, from } = migrateRoutine(data, issues);
+  const doc = validateRoutine(migrated, fallback, issues);
+  return { doc, issues, migratedFrom: from };
+}
+
+/** Run migrations until the data reaches SCHEMA_VERSION. */
+export function migrateRoutine(data: unknown, issues: LoadIssue[] = []): { data: Raw; from: number | null } {
+  let version = detectVersion(data);
+  const from = version < SCHEMA_VERSION ? version : null;
+  let cur: unknown = data;
+  while (version < SCHEMA_VERSION) {
+    const step = MIGRATIONS[version];
+    if (!step) {
+      issues.push({ path: "version", message: `no migration from v${version}` });
+      return { data: {}, from };
+    }
+    cur = step(cur);
+    version = detectVersion(cur);
+  }
+  if (version > SCHEMA_VERSION) {
+    issues.push({ path: "version", message: `written by newer schema v${version}; loading best-effort` });
+  }
+  return { data: isObject(cur) ? cur : {}, from };
+}
+
+function detectVersion(data: unknown): number {
+  if (Array.isArray(data)) return 0;
+  if (isObject(data) && typeof data.version === "number" && Number.isInteger(data.version)) return data.version;
+  // Early `{ curve, nodes }` snapshots carried no version either
+  return 0;
+}
+
+/** Validate shape and repair what can be repaired; fall back field-by-field otherwise. */
+export function validateRoutine(data: Raw, fallback: RoutineDocument, issues: LoadIssue[] = []): RoutineDocument {
+  const curve = validateCurve(data.curve, fallback.curve, issues);
+  const settings = validateSettings(data.settings, fallback.settings, issues);
+  const nodes = data.nodes === undefined
+    ? (issues.push({ path: "nodes", message: "missing; using defaults" }), fallback.nodes)
+    : validateNodes(data.nodes, issues, spanOf(settings.days));
+  const nodePositions = validatePositions(data.nodePositions, nodes, issues);
+  const doc: RoutineDocument = { version: SCHEMA_VERSION, curve, nodes, nodePositions, settings };
+  if (data.history !== undefined) doc.history = validateHistory(data.history, spanOf(settings.days), issues);
+  return doc;
+}
+
+/** Undo stacks are best-effort: any snapshot that needs repair is dropped, not repaired. */
+function validateHistory(raw: unknown, span: number, issues: LoadIssue[]): NonNullable<RoutineDocument["history"]> {
+  const stack = (v: unknown, name: string): RoutineSnapshot[] => {
+    if (!Array.isArray(v)) return [];
+    const out: RoutineSnapshot[] = [];
+    for (const snap of v) {
+      if (isObject(snap) && snap.curve !== undefined) {
+        const local: LoadIssue[] = [];
+        const curve = validateCurve(snap.curve, { controls: [], tension: 0 }, local);
+        const nodes = validateNodes(snap.nodes, local, span);
+        const nodePositions = validatePositions(snap.nodePositions, nodes, local);
+        if (!local.length) { out.push({ curve, nodes, nodePositions }); continue; }
+      }
+      issues.push({ path: `history.${name}`, message: "invalid snapshot; dropped" });
+    }
+    return out;
+  };
+  if (!isObject(raw)) {
+    issues.push({ path: "history", message: "not an object; dropped" });
+    return { past: [], future: [] };
+  }
+  return { past: stack(raw.past, "past").slice(-HISTORY_LIMIT), future: stack(raw.future, "future").slice(0, HISTORY_LIMIT) };
+}
+
+/** Nodes must fall inside `span` seconds (one day, or days·86400 in multi-day mode). */
+export function validateNodes(raw: unknown, issues: LoadIssue[] = [], span = DAY_SEC): NodeModel[] {
+  if (!Array.isArray(raw)) {
+    issues.push({ path: "nodes", message: "not an array; dropped" });
+    return [];
+  }
+  const out: NodeModel[] = [];
+  const seen = new Set<string>();
+  raw.forEach((n, i) => {
+    const path = `nodes[${i}]`;
+    if (!isObject(n)) {
+      issues.push({ path, message: "not an object; dropped" });
+      return;
+    }
+    if (!isFiniteNumber(n.time)) {
+      issues.push({ path: `${path}.time`, message: "missing or not a number; dropped" });
+      return;
+    }
+    let time = n.time;
+    if (time < 0 || time > span) {
+      time = Math.min(span, Math.max(0, time));
+      issues.push({ path: `${path}.time`, message: `out of range; clamped to ${time}` });
+    }
+    let end: number | undefined;
+    if (n.end !== undefined) {
+      const e = isFiniteNumber(n.end) ? Math.min(span, n.end) : NaN;
+      if (e > time) end = e;
+      else issues.push({ path: `${path}.end`, message: "not after start; span dropped" });
+    }
+    const window: Pick<NodeModel, "earliest" | "latest"> = {};
+    for (const key of ["earliest", "latest"] as const) {
+      if (n[key] === undefined) continue;
+      if (isFiniteNumber(n[key])) window[key] = Math.min(span, Math.max(0, n[key]));
+      else issues.push({ path: `${path}.${key}`, message: "not a number; dropped" });
+    }
+    if (window.earliest != null && window.latest != null && window.earliest > window.latest) {
+      issues.push({ path, message: "window is empty; dropped" });
+      delete window.earliest;
+      delete window.latest;
+    }
+    let id = typeof n.id === "string" && n.id ? n.id : `node-${i}`;
+    if (id !== n.id) issues.push({ path: `${path}.id`, message: `missing; assigned "${id}"` });
+    if (seen.has(id)) {
+      const base = id;
+      let k = 2;
+      while (seen.has(`${base}-${k}`)) k++;
+      id = `${base}-${k}`;
+      issues.push({ path: `${path}.id`, message: `duplicate "${base}"; renamed to "${id}"` });
+    }
+    seen.add(id);
+    const label = typeof n.label === "string" ? n.label : id;
+    if (label !== n.label) issues.push({ path: `${path}.label`, message: "missing; using id" });
+    const icon = typeof n.icon === "string" ? n.icon : "";
+    const color = typeof n.color === "string" && n.color.trim() ? n.color : DEFAULT_NODE_COLOR;
+    if (color !== n.color) issues.push({ path: `${path}.color`, message: `missing; using ${DEFAULT_NODE_COLOR}` });
+    let role: NodeModel["role"];
+    if (n.role !== undefined) {
+      if ((NODE_ROLES as readonly unknown[]).includes(n.role)) role = n.role as NodeModel["role"];
+      else issues.push({ path: `${path}.role`, message: "unknown role; node is free" });
+    }
+    out.push({ id, time, ...(end !== undefined ? { end } : {}), ...window, ...(role ? { role } : {}), label, icon, color });
+  });
+  return out;
+}
+
+function validateCurve(raw: unknown, fallback: CurveState, issues: LoadIssue[]): CurveState {
+  if (raw === undefined) return fallback;
+  if (!isObject(raw) || !Array.isArray(raw.controls) || raw.controls.length < 2 || !raw.controls.every(isVec2)) {
+    issues.push({ path: "curve", message: "invalid controls; using default curve" });
+    return fallback;
+  }
+  let tension = fallback.tension;
+  if (isFiniteNumber(raw.tension)) tension = Math.min(1, Math.max(0, raw.tension));
+  else issues.push({ path: "curve.tension", message: "invalid; using default" });
+  return { controls: raw.controls.map((p: Vec2) => ({ x: p.x, y: p.y })), tension };
+}
+
+function validatePositions(raw: unknown, nodes: NodeModel[], issues: LoadIssue[]): Record<string, Vec2> {
+  const out: Record<string, Vec2> = {};
+  if (raw === undefined) return out;
+  if (!isObject(raw)) {
+    issues.push({ path: "nodePositions", message: "not an object; dropped" });
+    return out;
+  }
+  const ids = new Set(nodes.map(n => n.id));
+  for (const [id, p] of Object.entries(raw)) {
+    if (!ids.has(id)) continue; // positions of dropped nodes are stale, not errors
+    if (isVec2(p)) out[id] = { x: p.x, y: p.y };
+    else issues.push({ path: `nodePositions.${id}`, message: "invalid point; dropped" });
+  }
+  return out;
+}
+
+function validateSettings(raw: unknown, fallback: RoutineSettings, issues: LoadIssue[]): RoutineSettings {
+  if (raw === undefined) return fallback;
+  if (!isObject(raw)) {
+    issues.push({ path: "settings", message: "not an object; using defaults" });
+    return fallback;
+  }
+  const softness = isFiniteNumber(raw.softness) ? Math.min(1, Math.max(0, raw.softness)) : fallback.softness;
+  if (raw.softness !== undefined && softness !== raw.softness) {
+    issues.push({ path: "settings.softness", message: "invalid; repaired" });
+  }
+  let curveModel = fallback.curveModel;
+  if (raw.curveModel !== undefined) {
+    if (isCurveModelName(raw.curveModel)) curveModel = raw.curveModel;
+    else issues.push({ path: "settings.curveModel", message: `unknown curve model; using ${curveModel}` });
+  }
+  let days = fallback.days;
+  if (raw.days !== undefined) {
+    if (isFiniteNumber(raw.days)) days = Math.max(1, Math.min(MAX_DAYS, Math.round(raw.days)));
+    if (days !== raw.days) issues.push({ path: "settings.days", message: `invalid; using ${days}` });
+  }
+  let startDate = fallback.startDate;
+  if (raw.startDate !== undefined) {
+    if (raw.startDate === null || isISODate(raw.startDate)) startDate = raw.startDate;
+    else issues.push({ path: "settings.startDate", message: "not an ISO date; dropped" });
+  }
+  const zone = (key: "timeZone" | "secondTimeZone"): string | null => {
+    if (raw[key] === undefined) return fallback[key];
+    if (raw[key] === null || isTimeZone(raw[key])) return raw[key] as string | null;
+    issues.push({ path: `settings.${key}`, message: "unknown IANA time zone; dropped" });
+    return null;
+  };
+  const timeZone = zone("timeZone");
+  const secondTimeZone = zone("secondTimeZone");
+  const timeWarp = validateTimeWarp(raw.timeWarp, fallback.timeWarp, issues, spanOf(days));
+  const snap = validateSnap(raw.snap, fallback.snap, issues);
+  const constraints = validateConstraints(raw.constraints, fallback.constraints, issues);
+  let pathColors = fallback.pathColors;
+  if (raw.pathColors !== undefined) {
+    if (raw.pathColors === "none" || raw.pathColors === "flat" || raw.pathColors === "gradient") pathColors = raw.pathColors;
+    else issues.push({ path: "settings.pathColors", message: `unknown path colouring; using ${pathColors}` });
+  }
+  return { ...fallback, softness, curveModel, timeWarp, days, startDate, timeZone, secondTimeZone, snap, constraints, pathColors };
+}
+
+function validateConstraints(raw: unknown, fallback: ConstraintSettings, issues: LoadIssue[]): ConstraintSettings {
+  if (raw === undefined) return fallback;
+  if (!isObject(raw)) {
+    issues.push({ path: "settings.constraints", message: "not an object; using defaults" });
+    return fallback;
+  }
+  let keepOrder = fallback.keepOrder;
+  if (typeof raw.keepOrder === "boolean") keepOrder = raw.keepOrder;
+  else if (raw.keepOrder !== undefined) issues.push({ path: "settings.constraints.keepOrder", message: "not a boolean; using default" });
+  let minGapSec = fallback.minGapSec;
+  if (isFiniteNumber(raw.minGapSec) && raw.minGapSec >= 0) minGapSec = raw.minGapSec;
+  else if (raw.minGapSec !== undefined) issues.push({ path: "settings.constraints.minGapSec", message: "invalid; using default" });
+  return { keepOrder, minGapSec };
+}
+
+/** Unknown grids fall back rather than being rounded: 7 minutes is not "nearly 5". */
+function validateSnap(raw: unknown, fallback: SnapSettings, issues: LoadIssue[]): SnapSettings {
+  if (raw === undefined) return fallback;
+  if (!isObject(raw)) {
+    issues.push({ path: "settings.snap", message: "not an object; using defaults" });
+    return fallback;
+  }
+  const flag = (key: "enabled" | "ticks" | "nodes"): boolean => {
+    if (raw[key] === undefined || typeof raw[key] === "boolean") return (raw[key] as boolean | undefined) ?? fallback[key];
+    issues.push({ path: `settings.snap.${key}`, message: "not a boolean; using default" });
+    return fallback[key];
+  };
+  let grid = fallback.grid;
+  if (raw.grid !== undefined) {
+    if ((SNAP_GRIDS as readonly unknown[]).includes(raw.grid)) grid = raw.grid as number;
+    else issues.push({ path: "settings.snap.grid", message: `unsupported grid; using ${grid}` });
+  }
+  let thresholdPx = fallback.thresholdPx;
+  if (raw.thresholdPx !== undefined) {
+    if (isFiniteNumber(raw.thresholdPx) && raw.thresholdPx >= 0) thresholdPx = raw.thresholdPx;
+    else issues.push({ path: "settings.snap.thresholdPx", message: "invalid; using default" });
+  }
+  return { enabled: flag("enabled"), grid, ticks: flag("ticks"), nodes: flag("nodes"), thresholdPx };
+}
+
+function validateTimeWarp(raw: unknown, fallback: TimeWarpSettings, issues: LoadIssue[], span: number): TimeWarpSettings {
+  if (raw === undefined) return fallback;
+  if (!isObject(raw) || !["uniform", "nodes", "keyframes"].includes(raw.mode as string)) {
+    issues.push({ path: "settings.timeWarp", message: "invalid; using uniform time" });
+    return fallback;
+  }
+  const keys: DensityKey[] = [];
+  if (Array.isArray(raw.keys)) {
+    raw.keys.forEach((k, i) => {
+      if (isObject(k) && isFiniteNumber(k.time) && isFiniteNumber(k.density) && k.density > 0) {
+        keys.push({ time: Math.min(span, Math.max(0, k.time)), density: k.density });
+      } else {
+        issues.push({ path: `settings.timeWarp.keys[${i}]`, message: "invalid keyframe; dropped" });
+      }
+    });
+  }
+  return { mode: raw.mode as TimeWarpSettings["mode"], keys };
+}
+
+/** Read the current document, upgrading a legacy `ck_nodes` payload if that is all there is. */
+export function loadRoutine(storage: Pick<Storage, "getItem">, fallback: RoutineDocument): LoadResult {
+  let raw: string | null = null;
+  try {
+    raw = storage.getItem(STORAGE_KEY) ?? storage.getItem(LEGACY_NODES_KEY);
+  } catch {}
+  if (raw == null) return { doc: fallback, issues: [], migratedFrom: null };
+  return parseRoutine(raw, fallback);
+}
+
+/** Persist the document; the legacy key is removed once a versioned copy exists. */
+export function saveRoutine(storage: StorageLike, doc: RoutineDocument): void {
+  try {
+    storage.setItem(STORAGE_KEY, serializeRoutine(doc));
+    storage.removeItem(LEGACY_NODES_KEY);
+  } catch {}
+}
+
+function isObject(v: unknown): v is Raw {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function isFiniteNumber(v: unknown): v is number {
+  return typeof v === "number" && Number.isFinite(v);
+}
+
+function isVec2(v: unknown): v is Vec2 {
+  return isObject(v) && isFiniteNumber(v.x) && isFiniteNumber(v.y);
+}
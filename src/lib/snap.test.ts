@@ -0,0 +1,45 @@
+import { segmentsToLUT } from './geometry/ParamMap'
+import { DEFAULT_SNAP, snapTime } from './snap'
+import type { NodeModel, SnapSettings } from './types'
+
+// A straight 1000-unit line over one day: 1 unit ≈ 86.4 s, so 12 px ≈ 17 min at scale 1
+const lut = segmentsToLUT([{ p0: { x: 0, y: 0 }, p1: { x: 1000 / 3, y: 0 }, p2: { x: 2000 / 3, y: 0 }, p3: { x: 1000, y: 0 } }])
+const HM = (h: number, m = 0) => h * 3600 + m * 60
+const node = (id: string, time: number, end?: number): NodeModel => ({ id, time, end, label: id, icon: '', color: '#000' })
+const settings: SnapSettings = { ...DEFAULT_SNAP, grid: 900, thresholdPx: 12 }
+
+describe('Snapping', () => {
+  it('pulls onto the nearest grid line inside the threshold', () => {
+    const r = snapTime(lut, HM(13, 3), settings)
+    expect(r.time).toBe(HM(13))
+    expect(r.target?.kind).toBe('grid')
+  })
+
+  it('leaves times outside the threshold alone', () => {
+    const r = snapTime(lut, HM(13, 10), { ...settings, grid: 1800, thresholdPx: 2 })
+    expect(r.time).toBe(HM(13, 10))
+    expect(r.target).toBeNull()
+  })
+
+  it('measures the threshold in screen pixels', () => {
+    // zoomed out to 0.1 px per unit the same 2 px covers ten times the time
+    expect(snapTime(lut, HM(13, 10), { ...settings, grid: 1800, thresholdPx: 2 }, { pxPerUnit: 0.1 }).time).toBe(HM(13))
+  })
+
+  it('snaps to other nodes’ start and end, not the dragged node', () => {
+    const nodes = [node('self', HM(13, 2)), node('work', HM(9), HM(13, 4))]
+    const r = snapTime(lut, HM(13, 3), settings, { nodes, exclude: 'self' })
+    expect(r.time).toBe(HM(13, 4))
+    expect(r.target).toMatchObject({ kind: 'node', nodeId: 'work', edge: 'end' })
+  })
+
+  it('prefers nodes, then ticks, over an equally close grid line', () => {
+    expect(snapTime(lut, HM(12, 58), settings, { nodes: [node('a', HM(13))], ticks: [HM(13)] }).target?.kind).toBe('node')
+    expect(snapTime(lut, HM(12, 58), settings, { ticks: [HM(13)] }).target?.kind).toBe('tick')
+  })
+
+  it('is suspended for fine adjustment or when disabled', () => {
+    expect(snapTime(lut, HM(13, 3), settings, { free: true }).time).toBe(HM(13, 3))
+    expect(snapTime(lut, HM(13, 3), { ...settings, enabled: false }).time).toBe(HM(13, 3))
+  })
+})
@@ -0,0 +1,69 @@
+import type { LUT, NodeId, NodeModel, SnapSettings, TimeSec } from "./types";
+import { timeSpan, timeToFraction } from "./geometry/ParamMap";
+
+/** Grid choices offered in settings: 5, 15 and 30 minutes (0 turns the grid off). */
+export const SNAP_GRIDS = [0, 300, 900, 1800] as const;
+
+export const DEFAULT_SNAP: SnapSettings = {
+  enabled: true,
+  grid: 900,
+  ticks: true,
+  nodes: true,
+  thresholdPx: 12,
+};
+
+export type SnapTarget = {
+  time: TimeSec;
+  kind: "node" | "tick" | "grid"; // also the tie-break order
+  nodeId?: NodeId;
+  edge?: "start" | "end";
+};
+
+export type SnapResult = { time: TimeSec; target: SnapTarget | null };
+
+export type SnapContext = {
+  nodes?: NodeModel[];   // other nodes' start/end times attract
+  exclude?: NodeId;      // the node being dragged
+  ticks?: TimeSec[];     // tick mark times, when the renderer draws them
+  pxPerUnit?: number;    // screen px per curve unit (SVG scale); 1 when unknown
+  free?: boolean;        // fine adjustment: snapping suspended for this move
+};
+
+/**
+ * Pull `time` onto the nearest target within `thresholdPx` screen pixels,
+ * measured along the curve so the magnet feels the same on dense and sparse stretches.
+ */
+export function snapTime(lut: LUT, time: TimeSec, settings: SnapSettings | undefined, ctx: SnapContext = {}): SnapResult {
+  if (!settings?.enabled || ctx.free || !lut.segments.length) return { time, target: null };
+  const scale = (ctx.pxPerUnit ?? 1) * lut.length;
+  const at = timeToFraction(lut, time);
+  let best: SnapTarget | null = null;
+  let bestPx = settings.thresholdPx;
+  for (const target of snapTargets(time, settings, timeSpan(lut), ctx)) {
+    const px = Math.abs(timeToFraction(lut, target.time) - at) * scale;
+    if (px <= bestPx && (best === null || px < bestPx)) { best = target; bestPx = px; }
+  }
+  return best ? { time: best.time, target: best } : { time, target: null };
+}
+
+/** Candidates near `time`, strongest kind first so ties go to nodes, then ticks, then the grid. */
+function snapTargets(time: TimeSec, settings: SnapSettings, span: number, ctx: SnapContext): SnapTarget[] {
+  const out: SnapTarget[] = [];
+  if (settings.nodes && ctx.nodes) {
+    for (const n of ctx.nodes) {
+      if (n.id === ctx.exclude) continue;
+      out.push({ time: n.time, kind: "node", nodeId: n.id, edge: "start" });
+      if (n.end != null && n.end > n.time) out.push({ time: n.end, kind: "node", nodeId: n.id, edge: "end" });
+    }
+  }
+  if (settings.ticks && ctx.ticks) {
+    for (const t of ctx.ticks) out.push({ time: t, kind: "tick" });
+  }
+  if (settings.grid > 0) {
+    const below = Math.floor(time / settings.grid) * settings.grid;
+    for (const t of [below, below + settings.grid]) {
+      if (t >= 0 && t <= span) out.push({ time: t, kind: "grid" });
+    }
+  }
+  return out;
+}
@@ -0,0 +1,46 @@
+import { assignLanes, laneOffset, moveNodeTime } from './spans'
+import { buildParamLUT, pointAtTime, segmentsBetween } from './geometry/ParamMap'
+import type { CurveState, NodeModel } from './types'
+
+const node = (id: string, time: number, end?: number): NodeModel =>
+  ({ id, time, end, label: id, icon: '', color: '#000' })
+
+describe('Duration spans', () => {
+  it('stacks overlapping spans on separate lanes and reuses freed lanes', () => {
+    const lanes = assignLanes([
+      node('work', 9 * 3600, 17 * 3600),
+      node('call', 10 * 3600, 11 * 3600),
+      node('lunch', 12 * 3600, 13 * 3600),
+      node('gym', 18 * 3600, 19 * 3600),
+      node('wake', 6 * 3600),
+    ])
+    expect(lanes.get('work')).toBe(0)
+    expect(lanes.get('call')).toBe(1)
+    expect(lanes.get('lunch')).toBe(1)
+    expect(lanes.get('gym')).toBe(0)
+    expect(lanes.has('wake')).toBe(false)
+    expect([0, 1, 2, 3, 4].map(l => laneOffset(l, 10))).toEqual([0, 10, -10, 20, -20])
+  })
+
+  it('keeps the duration when a span is moved', () => {
+    const moved = moveNodeTime(node('work', 9 * 3600, 17 * 3600), 20 * 3600)
+    expect(moved.end! - moved.time).toBe(8 * 3600)
+    expect(moved.end).toBe(86400)
+  })
+
+  it('sub-path starts and ends exactly on the curve at the span times', () => {
+    const curve: CurveState = {
+      controls: [{ x: 0, y: 0 }, { x: 100, y: 80 }, { x: 200, y: -40 }, { x: 300, y: 50 }],
+      tension: 0.4,
+    }
+    const lut = buildParamLUT(curve)
+    const cubics = segmentsBetween(lut, 9 * 3600, 17 * 3600)
+    expect(cubics.length).toBeGreaterThan(1)
+    const a = pointAtTime(lut, 9 * 3600), b = pointAtTime(lut, 17 * 3600)
+    expect(cubics[0].p0.x).toBeCloseTo(a.x, 9)
+    expect(cubics[0].p0.y).toBeCloseTo(a.y, 9)
+    expect(cubics[cubics.length - 1].p3.x).toBeCloseTo(b.x, 9)
+    expect(cubics[cubics.length - 1].p3.y).toBeCloseTo(b.y, 9)
+    for (let i = 1; i < cubics.length; i++) expect(cubics[i].p0).toEqual(cubics[i - 1].p3)
+  })
+})
@@ -0,0 +1,40 @@
+import type { NodeId, NodeModel, TimeSec } from "./types";
+import { DAY_SEC } from "./time";
+
+export const MIN_SPAN_SEC = 5 * 60; // shortest span the handles can produce
+
+export function hasSpan(n: NodeModel): n is NodeModel & { end: TimeSec } {
+  return n.end != null && n.end > n.time;
+}
+
+/**
+ * Greedy interval colouring: each span takes the lowest lane that is free
+ * at its start. Instants and non-overlapping spans stay on lane 0.
+ */
+export function assignLanes(nodes: NodeModel[]): Map<NodeId, number> {
+  const lanes = new Map<NodeId, number>();
+  const laneEnds: number[] = [];
+  const spans = nodes.filter(hasSpan).sort((a, b) => a.time - b.time || a.end - b.end);
+  for (const n of spans) {
+    let lane = laneEnds.findIndex(end => end <= n.time);
+    if (lane < 0) { lane = laneEnds.length; laneEnds.push(n.end); }
+    else laneEnds[lane] = n.end;
+    lanes.set(n.id, lane);
+  }
+  return lanes;
+}
+
+/** Signed offset for a lane: 0, +1, −1, +2, −2 … lane gaps, hugging the path. */
+export function laneOffset(lane: number, gap: number): number {
+  if (lane === 0) return 0;
+  const k = (lane + 1) >> 1;
+  return (lane % 2 ? 1 : -1) * k * gap;
+}
+
+/** Move a node to a new start time, keeping its duration inside the routine span. */
+export function moveNodeTime(n: NodeModel, time: TimeSec, span = DAY_SEC): NodeModel {
+  if (!hasSpan(n)) return { ...n, time };
+  const dur = n.end - n.time;
+  const start = Math.min(span - dur, Math.max(0, time));
+  return { ...n, time: start, end: start + dur };
+}
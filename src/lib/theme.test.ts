@@ -0,0 +1,47 @@
+import { DARK_THEME, HIGH_CONTRAST_THEME, LIGHT_THEME, THEMES, inkOn, nodeFill, resolveTheme, systemThemeName, themeVar } from './theme'
+
+describe('theme presets', () => {
+  it('covers the same keys in every preset', () => {
+    const keys = Object.keys(LIGHT_THEME).sort()
+    for (const theme of Object.values(THEMES)) expect(Object.keys(theme).sort()).toEqual(keys)
+  })
+
+  it('follows the system: more contrast first, then the colour scheme', () => {
+    expect(systemThemeName({ dark: false, moreContrast: false })).toBe('light')
+    expect(systemThemeName({ dark: true, moreContrast: false })).toBe('dark')
+    expect(systemThemeName({ dark: true, moreContrast: true })).toBe('high-contrast')
+  })
+})
+
+describe('resolveTheme', () => {
+  it('names a custom property after each key', () => {
+    expect(themeVar('path')).toBe('--serpentime-path')
+    expect(themeVar('pathActive')).toBe('--serpentime-path-active')
+    expect(themeVar('overlayInk')).toBe('--serpentime-overlay-ink')
+  })
+
+  it('takes set properties over the preset and ignores the rest', () => {
+    const css: Record<string, string> = { '--serpentime-path': ' #f97316 ', '--serpentime-now': '' }
+    const theme = resolveTheme(DARK_THEME, name => css[name] ?? '')
+    expect(theme.path).toBe('#f97316')
+    expect(theme.now).toBe(DARK_THEME.now)
+    expect({ ...theme, path: DARK_THEME.path }).toEqual(DARK_THEME)
+  })
+})
+
+describe('node colours', () => {
+  it("honours a node's own hex colour and falls back for tokens", () => {
+    expect(nodeFill('#10b981', LIGHT_THEME)).toBe('#10b981')
+    expect(nodeFill('#fff', LIGHT_THEME)).toBe('#fff')
+    expect(nodeFill('var(--brand)', DARK_THEME)).toBe(DARK_THEME.node)
+    expect(nodeFill('', HIGH_CONTRAST_THEME)).toBe(HIGH_CONTRAST_THEME.node)
+  })
+
+  it('inks a node with whichever of ink and background reads better', () => {
+    expect(inkOn('#1e3a8a', LIGHT_THEME)).toBe(LIGHT_THEME.background)
+    expect(inkOn('#fde68a', LIGHT_THEME)).toBe(LIGHT_THEME.ink)
+    expect(inkOn('#1e3a8a', DARK_THEME)).toBe(DARK_THEME.ink)
+    expect(inkOn('#000000', HIGH_CONTRAST_THEME)).toBe('#ffffff')
+    expect(inkOn('tomato', LIGHT_THEME)).toBe(LIGHT_THEME.ink)
+  })
+})
@@ -0,0 +1,126 @@
+import type { Theme, ThemeName } from "./types";
+
+/**
+ * Timeline colours. A preset is picked from the system's colour scheme and
+ * contrast preference; a host restyles any part of it with CSS custom
+ * properties on (or above) the timeline's container, named after the theme
+ * key: `--serpentime-path-active: #f97316`.
+ */
+export const LIGHT_THEME: Theme = {
+  background: "#fafafa",
+  ink: "#0f172a",
+  muted: "#64748b",
+  path: "#d1d5db",
+  pathActive: "#3b82f6",
+  tick: "rgba(156, 163, 175, 0.6)",
+  dayTick: "#6b7280",
+  now: "#10b981",
+  node: "#64748b",
+  nodeRing: "#ffffff",
+  handle: "rgba(6, 182, 212, 0.8)",
+  focus: "#0f172a",
+  snap: "#0ea5e9",
+  limit: "#f43f5e",
+  overlay: "#ffffff",
+  overlayInk: "#0f172a",
+};
+
+export const DARK_THEME: Theme = {
+  background: "#0f172a",
+  ink: "#f1f5f9",
+  muted: "#94a3b8",
+  path: "#475569",
+  pathActive: "#60a5fa",
+  tick: "rgba(148, 163, 184, 0.5)",
+  dayTick: "#94a3b8",
+  now: "#34d399",
+  node: "#94a3b8",
+  nodeRing: "#0f172a",
+  handle: "rgba(34, 211, 238, 0.85)",
+  focus: "#f1f5f9",
+  snap: "#38bdf8",
+  limit: "#fb7185",
+  overlay: "#1e293b",
+  overlayInk: "#f1f5f9",
+};
+
+/** Black on white, no tints: every mark clears WCAG AAA against the background. */
+export const HIGH_CONTRAST_THEME: Theme = {
+  background: "#ffffff",
+  ink: "#000000",
+  muted: "#000000",
+  path: "#000000",
+  pathActive: "#0000cc",
+  tick: "#000000",
+  dayTick: "#000000",
+  now: "#005a00",
+  node: "#000000",
+  nodeRing: "#000000",
+  handle: "#0000cc",
+  focus: "#000000",
+  snap: "#0000cc",
+  limit: "#b00000",
+  overlay: "#ffffff",
+  overlayInk: "#000000",
+};
+
+export const THEMES: Readonly<Record<ThemeName, Theme>> = {
+  light: LIGHT_THEME,
+  dark: DARK_THEME,
+  "high-contrast": HIGH_CONTRAST_THEME,
+};
+
+/** `--serpentime-` plus the key in kebab case. */
+export function themeVar(key: keyof Theme): string {
+  return `--serpentime-${key.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`;
+}
+
+/** The preset for the system's preferences: contrast wins over colour scheme. */
+export function systemThemeName(prefs: { dark: boolean; moreContrast: boolean }): ThemeName {
+  if (prefs.moreContrast) return "high-contrast";
+  return prefs.dark ? "dark" : "light";
+}
+
+/**
+ * `base` with each colour replaced by its custom property where one is set.
+ * `read` returns a property's value ("" when unset), e.g. from getComputedStyle.
+ */
+export function resolveTheme(base: Theme, read: (name: string) => string): Theme {
+  const out = { ...base };
+  for (const key of Object.keys(base) as (keyof Theme)[]) {
+    const value = read(themeVar(key)).trim();
+    if (value) out[key] = value;
+  }
+  return out;
+}
+
+const HEX = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/** `color` when it is a hex colour, else the theme's node fill (CSS tokens can't be checked for contrast). */
+export function nodeFill(color: string, theme: Theme): string {
+  return HEX.test(color.trim()) ? color.trim() : theme.node;
+}
+
+/** Whichever of the theme's ink and background reads better on a `fill`. */
+export function inkOn(fill: string, theme: Theme): string {
+  const lum = luminance(fill);
+  const a = luminance(theme.ink), b = luminance(theme.background);
+  if (lum == null || a == null || b == null) return theme.ink;
+  return contrast(lum, a) >= contrast(lum, b) ? theme.ink : theme.background;
+}
+
+/** WCAG relative luminance of a hex colour; null for anything else. */
+function luminance(color: string): number | null {
+  const m = HEX.exec(color.trim());
+  if (!m) return null;
+  const hex = m[1].length === 3 ? m[1].replace(/./g, (c) => c + c) : m[1];
+  const [r, g, b] = [0, 2, 4].map((i) => {
+    const c = parseInt(hex.slice(i, i + 2), 16) / 255;
+    return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+  });
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+function contrast(a: number, b: number): number {
+  return (Math.max(a, b) + 0.05) / (Math.min(a, b) + 0.05);
+}
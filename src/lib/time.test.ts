@@ -0,0 +1,32 @@
+import { DAY_SEC, dayIndex, formatDayLabel, formatHM, formatTime, nowOnAxis, parseHM, spanOf } from './time'
+
+describe('Multi-day time helpers', () => {
+  it('labels days from an ISO start date', () => {
+    expect(formatDayLabel('2026-10-19', 0)).toBe('Mon 19')
+    expect(formatDayLabel('2026-10-19', 6)).toBe('Sun 25')
+    expect(formatDayLabel('2026-10-31', 1)).toBe('Sun 1')
+    expect(formatDayLabel(null, 2)).toBe('Day 3')
+  })
+
+  it('splits absolute times into day + clock', () => {
+    expect(dayIndex(DAY_SEC + 3600, 7)).toBe(1)
+    expect(dayIndex(7 * DAY_SEC, 7)).toBe(6)
+    expect(formatTime(DAY_SEC + 13 * 3600, 7, '2026-10-19')).toBe('Tue 20 13:00')
+    expect(formatTime(13 * 3600)).toBe('13:00')
+    expect(spanOf(7)).toBe(7 * DAY_SEC)
+  })
+
+  it('reads back the clock it writes', () => {
+    expect(parseHM(formatHM(13 * 3600 + 5 * 60))).toBe(13 * 3600 + 5 * 60)
+    expect(parseHM('7:30')).toBe(7.5 * 3600)
+    expect(parseHM('24:00')).toBeNull()
+    expect(parseHM('')).toBeNull()
+  })
+
+  it('places now on the week axis, or nowhere outside it', () => {
+    const wed = new Date(2026, 9, 21, 8, 30)
+    expect(nowOnAxis(7, '2026-10-19', wed)).toBe(2 * DAY_SEC + 8.5 * 3600)
+    expect(nowOnAxis(7, '2026-10-26', wed)).toBeNull()
+    expect(nowOnAxis(1, '2026-10-26', wed)).toBe(8.5 * 3600)
+  })
+})
@@ -0,0 +1,74 @@
+import type { TimeSec } from "./types";
+
+export const DAY_SEC = 86400;
+export const MAX_DAYS = 14;
+
+const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/** Wall-clock "HH:MM" for any absolute time (day part dropped). */
+export function formatHM(sec: TimeSec): string {
+  const h = Math.floor(sec / 3600) % 24;
+  const m = Math.floor((sec % 3600) / 60);
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+}
+
+/** Seconds into the day for "HH:MM" (what `<input type="time">` gives); null when malformed. */
+export function parseHM(s: string): TimeSec | null {
+  const m = /^(\d{1,2}):(\d{2})$/.exec(s.trim());
+  if (!m || +m[1] > 23 || +m[2] > 59) return null;
+  return +m[1] * 3600 + +m[2] * 60;
+}
+
+/** Zero-based day a time falls in; the final instant belongs to the last day. */
+export function dayIndex(sec: TimeSec, days = 1): number {
+  return Math.min(days - 1, Math.max(0, Math.floor(sec / DAY_SEC)));
+}
+
+/** Seconds covered by a routine of `days` days. */
+export function spanOf(days: number): number {
+  return Math.max(1, Math.min(MAX_DAYS, Math.round(days))) * DAY_SEC;
+}
+
+/** "Mon 20" for day `i` after an ISO start date, or "Day 2" without one. */
+export function formatDayLabel(startDate: string | null | undefined, i: number): string {
+  const d = startDate ? parseISODate(startDate) : null;
+  if (!d) return `Day ${i + 1}`;
+  d.setUTCDate(d.getUTCDate() + i);
+  return `${WEEKDAYS[d.getUTCDay()]} ${d.getUTCDate()}`;
+}
+
+/** "Tue 20 13:00" in multi-day routines, plain "13:00" otherwise. */
+export function formatTime(sec: TimeSec, days = 1, startDate?: string | null): string {
+  return days > 1 ? `${formatDayLabel(startDate, dayIndex(sec, days))} ${formatHM(sec)}` : formatHM(sec);
+}
+
+/**
+ * Current time on the routine's axis: seconds since local midnight, shifted by
+ * whole days since `startDate`. Null when today is outside the routine.
+ */
+export function nowOnAxis(days = 1, startDate?: string | null, now = new Date()): TimeSec | null {
+  const sec = now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds();
+  if (days <= 1 || !startDate) return sec;
+  const start = parseISODate(startDate);
+  if (!start) return sec;
+  const today = Date.UTC(now.getFullYear(), now.getMonth(), now.getDate());
+  const offset = Math.round((today - start.getTime()) / (DAY_SEC * 1000));
+  if (offset < 0 || offset >= days) return null;
+  return offset * DAY_SEC + sec;
+}
+
+/** "2026-10-19" for the local calendar date of `d`. */
+export function localISODate(d = new Date()): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
+
+export function isISODate(s: unknown): s is string {
+  return typeof s === "string" && parseISODate(s) !== null;
+}
+
+function parseISODate(s: string): Date | null {
+  const m = /^(\d{4})-(\d{2})-(\d{2})$/.exec(s);
+  if (!m) return null;
+  const d = new Date(Date.UTC(+m[1], +m[2] - 1, +m[3]));
+  return d.getUTCMonth() === +m[2] - 1 ? d : null;
+}
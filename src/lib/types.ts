@@ -1,28 +1,103 @@
-export type TimeSec = number; // 0..86400
+export type TimeSec = number; // seconds from midnight of day 0 (0..days·86400)
 export type NodeId = string;
 
 export type CurveControlPoint = { x: number; y: number };
 export type CurveState = {
-  controls: CurveControlPoint[];   // 4+ anchors for Catmull-Rom; start with 4
+  controls: CurveControlPoint[];   // 2+ anchors, normalised: x 0..1 along time, y across (see viewport.ts)
   tension: number;                 // 0..1 (0 = loose/smooth, 1 = tight)
 };
 
+/** Named ways of turning controls into cubic segments (see geometry/CurveModel.ts). */
+export type CurveModelName = 'catmull-rom' | 'centripetal' | 'symmetric-arms' | 'monotone';
+
+export type CurveModel = {
+  name: CurveModelName;
+  label: string;                   // human name for pickers
+  segments: (points: Vec2[], tension: number) => Cubic[]; // one cubic per consecutive pair
+};
+
+/**
+ * How a node may move. Anchors bound the routine and keep their time; pinned
+ * nodes keep either their time or their place on screen; free nodes do neither.
+ */
+export type NodeRole = 'free' | 'start' | 'end' | 'pinned-time' | 'pinned-position';
+
 export type NodeModel = {
   id: NodeId;
-  time: TimeSec;                   // canonical time (seconds in day)
+  time: TimeSec;                   // canonical time (day·86400 + seconds in day)
+  end?: TimeSec;                   // optional span end (> time); instant when absent
+  earliest?: TimeSec;              // hard window: the node may not start before this
+  latest?: TimeSec;                // hard window: the node (or its span) may not end after this
+  role?: NodeRole;                 // 'free' when absent
   label: string;
-  icon: string;                    // token name or URL (host renders)
+  icon: string;                    // token name or URL (see icons.ts)
   color: string;                   // CSS token or hex
 };
 
+/** A drawn icon: paths stroked on a 24×24 grid unless `viewBox` says otherwise (see icons.ts). */
+export type IconDef = {
+  paths: string[];
+  viewBox?: string;
+};
+
+/** Colours for every part of a timeline (see theme.ts); any CSS colour. */
+export type Theme = {
+  background: string;              // behind the timeline
+  ink: string;                     // text on the background
+  muted: string;                   // secondary text: tick labels, hints
+  path: string;
+  pathActive: string;              // the path while a node slides
+  tick: string;
+  dayTick: string;                 // midnight separators and day labels
+  now: string;                     // now marker
+  node: string;                    // fill for nodes without a usable colour
+  nodeRing: string;                // outline that lifts a node off the path
+  handle: string;                  // sculpt handles
+  focus: string;                   // keyboard focus rings
+  snap: string;                    // snap indicator, drawn strokes
+  limit: string;                   // constraint and crossing feedback
+  overlay: string;                 // coachmarks, sheets, toasts and buttons
+  overlayInk: string;
+};
+
+export type ThemeName = 'light' | 'dark' | 'high-contrast';
+
+/** How the path shows activities: each node's colour up to the next node, or a blend of the two (see activity.ts). */
+export type PathColoring = 'none' | 'flat' | 'gradient';
+
+/** Host override for node icons: a def or an image URL replaces the icon, null hides it, undefined defers to the registry. */
+export type IconResolver = (icon: string) => IconDef | string | null | undefined;
+
 export type CurveKitProps = {
   curve: CurveState;
   nodes: NodeModel[];
   onCurveChange?: (next: CurveState) => void;   // fired while sculpting
   onNodeChange?: (id: NodeId, nextTime: TimeSec) => void; // drag along path
+  onNodeSpanChange?: (id: NodeId, span: { time: TimeSec; end: TimeSec }) => void; // span handles
   onNodeTap?: (id: NodeId) => void;             // host handles editor
-  mode?: 'view' | 'sculpt' | 'plan';            // sculpt toggles handles
+  onGestureStart?: () => void;                  // a drag began (host may open an undo step)
+  onGestureEnd?: () => void;                    // the drag ended; changes since start are one step
+  mode?: 'view' | 'sculpt' | 'plan' | 'draw';   // sculpt toggles handles; draw traces a new curve
   readOnly?: boolean;
+  curveModel?: CurveModelName;                  // how controls become a path (default 'catmull-rom')
+  arcLength?: 'chord' | 'exact';                // exact = quadrature + Newton (default 'chord')
+  timeWarp?: TimeWarp;                          // busy hours take more length (over elapsed seconds with timeZone)
+  days?: number;                                // multi-day span (default 1)
+  startDate?: string | null;                    // ISO date of day 0, for tick labels
+  timeZone?: string | null;                     // IANA zone: 23/25-hour DST days, now marker in that zone
+  secondTimeZone?: string | null;               // second clock on tick labels
+  keyboardStep?: number;                        // seconds per arrow key on a focused node (default 300)
+  keyboardLargeStep?: number;                   // Shift+arrow / PageUp/PageDown (default 3600)
+  nudgePx?: number;                             // arrow-key nudge for a focused sculpt handle (default 4)
+  snap?: SnapSettings;                          // magnetic snapping while dragging; off when absent
+  constraints?: ConstraintSettings;             // ordering and gaps; per-node windows always apply
+  drawTolerancePx?: number;                     // draw mode: how closely the fitted curve follows the stroke (default 8)
+  crossings?: 'refuse' | 'highlight' | 'allow'; // sculpt moves that make the path cross itself (default 'refuse')
+  wiggle?: number;                              // mobile serpentine: 0 = straight … 1 = edge to edge (default 0.6)
+  labelSpacing?: number;                        // mobile serpentine: path length each node needs (default 72)
+  resolveIcon?: IconResolver;                   // node icons: consulted before the built-in tokens and URLs
+  pathColors?: PathColoring;                    // activity colours along the path (default 'none')
+  theme?: ThemeName | 'auto';                   // preset under any --serpentime-* overrides; auto follows the system (default)
 };
 
 export type Vec2 = { x: number; y: number };
@@ -38,6 +113,96 @@ export type LUT = {
   pt: Vec2[];        // sampled points
   length: number;    // total length (px)
   segments: Cubic[]; // the cubic segments used
+  warp?: TimeWarp;   // time → arc-length fraction; uniform when absent
+  span?: number;     // seconds covered (days·86400); one day when absent
+  day?: DayModel;    // DST-aware days: times are wall-clock, the curve (and warp) run on elapsed seconds
+  index?: SegmentIndex; // nearest-point acceleration; built on demand when absent
+  arc?: ArcLengthTable; // exact arc length (quadrature); chord-length sampling when absent
+};
+
+export type ArcLengthTable = {
+  segStart: number[];  // exact length before each segment, then the total: [0..L]
+  tolPx: number;       // pointAtTime lands within this many px of the exact position
+};
+
+/** Round-trip tolerance for exact arc length; the tighter of the two wins. */
+export type ArcTolerance = { sec?: number; px?: number };
+
+export type Box = { minX: number; minY: number; maxX: number; maxY: number };
+
+/** Bounding-volume hierarchy over cubic segments (see geometry/SpatialIndex.ts). */
+export type SegmentIndex = {
+  boxes: Box[];      // per node; a cubic lies inside the hull (so the box) of its controls
+  left: number[];    // child node indices, -1 on leaves
+  right: number[];
+  seg: number[];     // segment index on leaves, -1 on inner nodes
+};
+
+/** A run of real days in one IANA zone (see dayModel.ts); wall-clock TimeSec ↔ elapsed seconds. */
+export type DayModel = {
+  tz: string;                      // IANA zone, e.g. "Europe/Lisbon"
+  date: string;                    // ISO date of day 0
+  days: number;
+  start: number;                   // epoch ms of day-0 midnight in `tz`
+  span: number;                    // elapsed seconds covered (days·86400 ± DST hours)
+  shifts: { elapsed: number; delta: number }[]; // from `elapsed` on, wall = elapsed + delta
+  dayStarts: number[];             // elapsed seconds at each midnight (days + 1 entries)
+};
+
+export type DensityKey = {
+  time: TimeSec;
+  density: number;   // relative curve length per second (> 0)
+};
+
+export type TimeWarp = {
+  // Piecewise-linear density over knots; arrays aligned by index
+  times: number[];   // ascending knot times, [0..span]
+  density: number[]; // density at each knot
+  cum: number[];     // normalised integral of density up to each knot, [0..1]
+  span: number;      // seconds covered
+};
+
+
+
+export type TimeWarpSettings = {
+  mode: 'uniform' | 'nodes' | 'keyframes'; // 'nodes' derives density from node clustering
+  keys: DensityKey[];              // used when mode === 'keyframes'
 };
 
+export type SnapSettings = {
+  enabled: boolean;
+  grid: number;                    // seconds between grid lines (300, 900, 1800); 0 = no grid
+  ticks: boolean;                  // snap to tick marks
+  nodes: boolean;                  // snap to other nodes' start and end times
+  thresholdPx: number;             // magnetic radius, in screen px measured along the curve
+};
+
+export type ConstraintSettings = {
+  keepOrder: boolean;              // nodes may not be dragged past their neighbours
+  minGapSec: number;               // minimum seconds between consecutive start times
+};
+
+export type RoutineSettings = {
+  softness: number;                // 0..1 looseness of the path (tension = 1 − softness)
+  curveModel: CurveModelName;      // how node positions become a path
+  timeWarp: TimeWarpSettings;
+  days: number;                    // 1 = single day, 7 = week view
+  startDate: string | null;        // ISO date of day 0 (date labels, now marker)
+  timeZone: string | null;         // IANA zone the routine lives in; the device's zone (no DST model) when null
+  secondTimeZone: string | null;   // also show times in this zone (travelling teammates)
+  snap: SnapSettings;
+  constraints: ConstraintSettings;
+  pathColors: PathColoring;        // activity colours along the path
+};
+
+export type RoutineDocument = {
+  version: number;                 // schema version (see serialization.ts)
+  curve: CurveState;
+  nodes: NodeModel[];
+  nodePositions: Record<NodeId, Vec2>; // nodes the user placed, normalised like curve controls (App: nodes are controls)
+  settings: RoutineSettings;
+  history?: { past: RoutineSnapshot[]; future: RoutineSnapshot[] }; // undo stacks
+};
 
+/** The undoable part of a routine: shape and node times, not settings. */
+export type RoutineSnapshot = Pick<RoutineDocument, 'curve' | 'nodes' | 'nodePositions'>;
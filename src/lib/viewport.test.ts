@@ -0,0 +1,60 @@
+import { fitViewport, fromView, layoutViewport, normalizePoints, toView } from './viewport'
+import { serpentineLayout } from './layout'
+import { buildParamLUT, pointAtTime, timeAtPoint } from './geometry/ParamMap'
+
+// a left-to-right S, normalised: x 0..1 along time, y across
+const shape = [{ x: 0, y: 0 }, { x: 1 / 3, y: -0.125 }, { x: 2 / 3, y: 0.125 }, { x: 1, y: 0 }]
+
+describe('viewport', () => {
+  it('maps to the container and back', () => {
+    for (const size of [{ width: 800, height: 300 }, { width: 390, height: 844 }]) {
+      const vp = fitViewport(shape, size)
+      for (const p of shape) {
+        const back = fromView(vp, toView(vp, p))
+        expect(back.x).toBeCloseTo(p.x, 12)
+        expect(back.y).toBeCloseTo(p.y, 12)
+      }
+    }
+  })
+
+  it('runs time along the longer side and fits the shape inside the padding', () => {
+    const wide = fitViewport(shape, { width: 800, height: 300 })
+    expect(wide.orientation).toBe('horizontal')
+    expect(toView(wide, shape[0])).toEqual({ x: 24, y: 150 })
+    expect(toView(wide, shape[3])).toEqual({ x: 776, y: 150 })
+    const tall = fitViewport(shape, { width: 390, height: 844 })
+    expect(tall.orientation).toBe('vertical')
+    expect(toView(tall, shape[0]).y).toBeCloseTo(24, 9)
+    expect(toView(tall, shape[3]).y).toBeCloseTo(820, 9)
+    // a quarter turn clockwise, not a mirror: what was above the line is now right of it
+    expect(toView(tall, shape[1]).x).toBeGreaterThan(195)
+  })
+
+  it('keeps aspect ratio and node times through a resize and a rotation', () => {
+    const times = [0, 9000, 30000, 51000, 86400]
+    const views = [{ width: 800, height: 300 }, { width: 1600, height: 900 }, { width: 390, height: 844 }].map(size => {
+      const vp = fitViewport(shape, size)
+      return { vp, lut: buildParamLUT({ controls: shape.map(p => toView(vp, p)), tension: 0.5 }) }
+    })
+    const ref = times.map(t => pointAtTime(views[0].lut, t))
+    for (const { vp, lut } of views) {
+      times.forEach((t, i) => {
+        // the same spot in normalised terms, to within half a pixel of the LUT's sampling...
+        const p = fromView(vp, pointAtTime(lut, t))
+        const q = fromView(views[0].vp, ref[i])
+        expect(Math.hypot(p.x - q.x, p.y - q.y) * vp.scale).toBeLessThan(0.5)
+        // ...and the same time back from a tap there
+        expect(Math.abs(timeAtPoint(lut, pointAtTime(lut, t)) - t)).toBeLessThan(60)
+      })
+    }
+  })
+
+  it('gives a layout and absolute points their own frames', () => {
+    const layout = serpentineLayout({ width: 400, height: 800, count: 4 })
+    const vp = layoutViewport(layout)
+    const ends = [layout.controls[0], layout.controls[layout.controls.length - 1]].map(p => fromView(vp, p))
+    expect(ends.map(p => [p.x, Math.abs(p.y)])).toEqual([[0, 0], [1, 0]])
+    const norm = normalizePoints([{ x: 100, y: 50 }, { x: 300, y: 0 }, { x: 500, y: 100 }])
+    expect(norm).toEqual([{ x: 0, y: 0 }, { x: 0.5, y: -0.125 }, { x: 1, y: 0.125 }])
+  })
+})
@@ -0,0 +1,80 @@
+import type { Vec2 } from "./types";
+import type { Orientation, SerpentineLayout } from "./layout";
+
+/**
+ * Curve coordinates are normalised: x runs along the routine's main (time) axis,
+ * 0 at the start of the frame and 1 at its end; y runs across it in the same
+ * unit, 0 on the centre line. A viewport places that frame in a container with
+ * one uniform scale, so shape and aspect ratio survive any resize; when time
+ * runs down the screen the frame is turned a quarter clockwise, never mirrored.
+ */
+export type Viewport = {
+  orientation: Orientation;
+  origin: Vec2;   // container point of the normalised (0, 0)
+  scale: number;  // container units per normalised unit
+};
+
+export type ViewportOptions = {
+  orientation?: Orientation | "auto"; // main axis; auto follows the container's longer side (default)
+  padding?: number;                   // kept clear on every side (default 24)
+};
+
+export function toView(vp: Viewport, p: Vec2): Vec2 {
+  const along = p.x * vp.scale, across = p.y * vp.scale;
+  return vp.orientation === "horizontal"
+    ? { x: vp.origin.x + along, y: vp.origin.y + across }
+    : { x: vp.origin.x - across, y: vp.origin.y + along };
+}
+
+export function fromView(vp: Viewport, p: Vec2): Vec2 {
+  const dx = (p.x - vp.origin.x) / vp.scale, dy = (p.y - vp.origin.y) / vp.scale;
+  return vp.orientation === "horizontal" ? { x: dx, y: dy } : { x: dy, y: -dx };
+}
+
+/** The largest viewport that shows `points` whole and centred in a `width` × `height` container. */
+export function fitViewport(points: Vec2[], size: { width: number; height: number }, opts: ViewportOptions = {}): Viewport {
+  const { padding = 24 } = opts;
+  const orientation: Orientation = !opts.orientation || opts.orientation === "auto"
+    ? (size.height > size.width ? "vertical" : "horizontal")
+    : opts.orientation;
+  const { minX, maxX, minY, maxY } = bounds(points.length ? points : [{ x: 0, y: 0 }, { x: 1, y: 0 }]);
+  const [along, across] = orientation === "vertical" ? [size.height, size.width] : [size.width, size.height];
+  const fit = (room: number, extent: number) => (extent > 0 ? Math.max(0, room - 2 * padding) / extent : Infinity);
+  let scale = Math.min(fit(along, maxX - minX), fit(across, maxY - minY));
+  if (!Number.isFinite(scale) || scale <= 0) scale = Math.max(1, Math.min(along, across) - 2 * padding);
+  // centre the frame's box in the container
+  const mid = toView({ orientation, origin: { x: 0, y: 0 }, scale }, { x: (minX + maxX) / 2, y: (minY + maxY) / 2 });
+  return { orientation, origin: { x: size.width / 2 - mid.x, y: size.height / 2 - mid.y }, scale };
+}
+
+/** The frame a serpentine layout was built in: its main range is 0..1. */
+export function layoutViewport(layout: Pick<SerpentineLayout, "orientation" | "main" | "centre">): Viewport {
+  const { orientation, main, centre } = layout;
+  return {
+    orientation,
+    origin: orientation === "vertical" ? { x: centre, y: main[0] } : { x: main[0], y: centre },
+    scale: Math.max(1e-9, main[1] - main[0]),
+  };
+}
+
+/** Absolute points with time along `orientation`, normalised to the frame of their own bounding box. */
+export function normalizePoints(points: Vec2[], orientation: Orientation = "horizontal"): Vec2[] {
+  if (!points.length) return [];
+  const { minX, maxX, minY, maxY } = bounds(points);
+  const vertical = orientation === "vertical";
+  const vp: Viewport = {
+    orientation,
+    origin: vertical ? { x: (minX + maxX) / 2, y: minY } : { x: minX, y: (minY + maxY) / 2 },
+    scale: (vertical ? maxY - minY : maxX - minX) || 1,
+  };
+  return points.map((p) => fromView(vp, p));
+}
+
+function bounds(points: Vec2[]) {
+  let minX = Infinity, maxX = -Infinity, minY = Infinity, maxY = -Infinity;
+  for (const p of points) {
+    minX = Math.min(minX, p.x); maxX = Math.max(maxX, p.x);
+    minY = Math.min(minY, p.y); maxY = Math.max(maxY, p.y);
+  }
+  return { minX, maxX, minY, maxY };
+}